@@ -0,0 +1,406 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Braces, ChevronDown, ChevronRight, Copy, Link } from "lucide-react"
+import { UNKNOWN_FIELDS_KEY, type DecodedData, type MapEntryIndex, type UnknownField } from "@/lib/proto/decoder"
+import type { RawRecord } from "@/lib/proto/raw"
+import { findMessage, formatFieldType, type ProtoField, type ProtoMessage, type ProtoSchema } from "@/lib/proto/schema"
+import { WIRE_TYPE_NAMES } from "@/lib/proto/wire"
+import VirtualList from "./virtual-list"
+
+interface DecodedTreeProps {
+  data: DecodedData
+  /** Types the nodes; absent in raw mode, where `rawRecords` is given instead. */
+  message?: ProtoMessage
+  schema?: ProtoSchema
+  rawRecords?: RawRecord[]
+  /** Paths the decoder filled in with a default value. */
+  defaulted: string[]
+  /** Wire occurrence of each map entry, which paths index map entries by. */
+  mapEntries: MapEntryIndex[]
+  selectedPath: string | null
+  onSelectPath: (path: string | null) => void
+  onHoverPath: (path: string | null) => void
+  onCopy: (text: string, description: string) => void
+}
+
+// How the children of a node are typed
+type Scope =
+  | { kind: "message"; message: ProtoMessage }
+  | { kind: "repeated"; field: ProtoField }
+  | { kind: "map"; field: ProtoField }
+  | { kind: "unknown"; path: string }
+  | { kind: "raw" }
+  | { kind: "raw-repeated" }
+  | { kind: "none" }
+
+interface TreeNode {
+  label: string
+  /** Path in the decoder's notation, shared with the hex and wire views. */
+  path: string
+  value: any
+  /** Proto type as declared, or as read from the wire in raw mode. */
+  type?: string
+  fieldNumber?: number
+  presence?: "present" | "default"
+  scope: Scope
+  /** Path the children are under, when it differs from the node's own. */
+  childPath?: string
+}
+
+type TreeRow =
+  | { kind: "node"; node: TreeNode; depth: number }
+  | { kind: "more"; path: string; remaining: number; depth: number }
+
+const ROW_HEIGHT = 24
+// Children listed at a time, so expanding a huge repeated field stays cheap
+const PAGE_SIZE = 100
+
+const joinPath = (path: string, name: string) => (path ? `${path}.${name}` : name)
+
+const isComposite = (value: any) => typeof value === "object" && value !== null
+
+const preview = (value: any) => {
+  if (Array.isArray(value)) return `[${value.length} item${value.length === 1 ? "" : "s"}]`
+  if (isComposite(value)) {
+    const count = Object.keys(value).length
+    return `{${count} field${count === 1 ? "" : "s"}}`
+  }
+  if (typeof value === "string") return JSON.stringify(value.length > 80 ? `${value.slice(0, 80)}…` : value)
+  return String(value)
+}
+
+const VALUE_STYLES: Record<string, string> = {
+  string: "text-green-700",
+  number: "text-blue-700",
+  boolean: "text-purple-700",
+}
+
+// Every path a node at `path` is nested under, so revealing it can expand them
+const ancestorsOf = (path: string) => {
+  const ancestors: string[] = []
+  for (let i = 1; i < path.length; i++) {
+    if (path[i] === "." || path[i] === "[") ancestors.push(path.slice(0, i))
+  }
+  return ancestors
+}
+
+const fieldType = (field: ProtoField) =>
+  field.repeated && !field.map ? `repeated ${field.type}` : formatFieldType(field)
+
+// Shows decoded data as a tree typed by the schema, listing only the rows in view
+export default function DecodedTree({
+  data,
+  message,
+  schema,
+  rawRecords,
+  defaulted,
+  mapEntries,
+  selectedPath,
+  onSelectPath,
+  onHoverPath,
+  onCopy,
+}: DecodedTreeProps) {
+  // Nodes are expanded when `all` is set, except the toggled ones, or the other way round
+  const [expansion, setExpansion] = useState<{ all: boolean; toggled: Set<string> }>({
+    all: false,
+    toggled: new Set(),
+  })
+  const [limits, setLimits] = useState<Map<string, number>>(new Map())
+  const defaultedPaths = useMemo(() => new Set(defaulted), [defaulted])
+  // A key set more than once shows the value of its last entry, which is listed last
+  const mapEntryIndices = useMemo(
+    () => new Map(mapEntries.map((e) => [`${e.path}[${JSON.stringify(e.key)}]`, e.index])),
+    [mapEntries],
+  )
+  const rawByPath = useMemo(() => new Map((rawRecords ?? []).map((r) => [r.path, r])), [rawRecords])
+
+  const isExpanded = (path: string) => expansion.all !== expansion.toggled.has(path)
+
+  // Reveals a node selected elsewhere, such as a byte in the hex view
+  useEffect(() => {
+    if (!selectedPath) return
+    setExpansion((current) => {
+      const toggled = new Set(current.toggled)
+      ancestorsOf(selectedPath).forEach((path) => (current.all ? toggled.delete(path) : toggled.add(path)))
+      return { all: current.all, toggled }
+    })
+  }, [selectedPath])
+
+  const messageScope = (field: ProtoField): Scope => {
+    const type = field.resolvedType && schema ? findMessage(schema, field.resolvedType) : undefined
+    return type ? { kind: "message", message: type } : { kind: "none" }
+  }
+
+  const rawNode = (label: string, path: string, value: any, fieldNumber?: number): TreeNode => {
+    const record = rawByPath.get(path)
+    return {
+      label,
+      path,
+      value,
+      type: record ? (record.interpretation ?? WIRE_TYPE_NAMES[record.wireType]) : undefined,
+      fieldNumber,
+      scope: isComposite(value) && !Array.isArray(value) ? { kind: "raw" } : { kind: "none" },
+    }
+  }
+
+  // Builds the first `limit` children of a node; the rest are only counted
+  const childrenOf = (node: TreeNode, limit: number): { nodes: TreeNode[]; total: number } => {
+    const { value, scope } = node
+    const path = node.childPath ?? node.path
+    const entries: [string, any][] = Array.isArray(value)
+      ? value.slice(0, limit).map((v, i) => [String(i), v])
+      : Object.entries(value).slice(0, limit)
+    const total = Array.isArray(value) ? value.length : Object.keys(value).length
+
+    const nodes = entries.map(([key, child], i): TreeNode => {
+      switch (scope.kind) {
+        case "message": {
+          if (key === UNKNOWN_FIELDS_KEY) {
+            return { label: key, path: joinPath(path, key), value: child, scope: { kind: "unknown", path } }
+          }
+          const field = scope.message.fields.find((f) => f.name === key || f.jsonName === key)
+          if (!field) return { label: key, path: joinPath(path, key), value: child, scope: { kind: "none" } }
+          const fieldPath = joinPath(path, field.name)
+          return {
+            label: key,
+            path: fieldPath,
+            value: child,
+            type: fieldType(field),
+            fieldNumber: field.number,
+            presence: defaultedPaths.has(fieldPath) ? "default" : "present",
+            scope: field.map
+              ? { kind: "map", field }
+              : field.repeated
+                ? { kind: "repeated", field }
+                : messageScope(field),
+          }
+        }
+        case "repeated":
+          return {
+            label: `[${key}]`,
+            path: `${path}[${key}]`,
+            value: child,
+            type: scope.field.type,
+            fieldNumber: scope.field.number,
+            scope: messageScope(scope.field),
+          }
+        case "map": {
+          const entryType =
+            scope.field.resolvedType && schema ? findMessage(schema, scope.field.resolvedType) : undefined
+          const valueField = entryType?.fields.find((f) => f.number === 2)
+          // On the wire a map entry is a message whose value is field 2. Edited
+          // data may hold keys the decoder never saw, which fall back to their position
+          const index = mapEntryIndices.get(`${path}[${JSON.stringify(key)}]`) ?? i
+          return {
+            label: JSON.stringify(key),
+            path: `${path}[${index}]`,
+            childPath: `${path}[${index}].value`,
+            value: child,
+            type: scope.field.map?.valueType,
+            fieldNumber: scope.field.number,
+            scope: valueField ? messageScope(valueField) : { kind: "none" },
+          }
+        }
+        case "unknown": {
+          const unknown = child as UnknownField
+          return {
+            label: `#${unknown.number}`,
+            path: joinPath(scope.path, `#${unknown.number}`),
+            value: child,
+            type: WIRE_TYPE_NAMES[unknown.wireType],
+            fieldNumber: unknown.number,
+            scope: { kind: "none" },
+          }
+        }
+        case "raw": {
+          // Raw mode gathers repeated occurrences of a field number into an array
+          const prefix = joinPath(path, key)
+          if (rawByPath.has(`${prefix}[1]`)) {
+            return { label: key, path: prefix, value: child, fieldNumber: Number(key), scope: { kind: "raw-repeated" } }
+          }
+          return rawNode(key, `${prefix}[0]`, child, Number(key))
+        }
+        case "raw-repeated":
+          return rawNode(`[${key}]`, `${path}[${key}]`, child, node.fieldNumber)
+        default:
+          return {
+            label: Array.isArray(value) ? `[${key}]` : key,
+            path: Array.isArray(value) ? `${path}[${key}]` : joinPath(path, key),
+            value: child,
+            scope: { kind: "none" },
+          }
+      }
+    })
+    return { nodes, total }
+  }
+
+  const rows = useMemo(() => {
+    const rows: TreeRow[] = []
+    const visit = (parent: TreeNode, depth: number) => {
+      const limit = limits.get(parent.path) ?? PAGE_SIZE
+      const { nodes, total } = childrenOf(parent, limit)
+      for (const node of nodes) {
+        rows.push({ kind: "node", node, depth })
+        if (isComposite(node.value) && isExpanded(node.path)) visit(node, depth + 1)
+      }
+      if (total > nodes.length) rows.push({ kind: "more", path: parent.path, remaining: total - nodes.length, depth })
+    }
+    const rootScope: Scope = message ? { kind: "message", message } : rawRecords ? { kind: "raw" } : { kind: "none" }
+    visit({ label: "", path: "", value: data, scope: rootScope }, 0)
+    return rows
+  }, [data, message, schema, rawByPath, defaultedPaths, mapEntryIndices, expansion, limits])
+
+  const selectedRow = rows.findIndex((row) => row.kind === "node" && row.node.path === selectedPath)
+
+  const toggle = (path: string) => {
+    const toggled = new Set(expansion.toggled)
+    if (toggled.has(path)) {
+      toggled.delete(path)
+    } else {
+      toggled.add(path)
+    }
+    setExpansion({ all: expansion.all, toggled })
+  }
+
+  const showMore = (path: string) => {
+    const next = new Map(limits)
+    next.set(path, (limits.get(path) ?? PAGE_SIZE) + PAGE_SIZE)
+    setLimits(next)
+  }
+
+  const copyValue = (node: TreeNode) =>
+    onCopy(isComposite(node.value) ? JSON.stringify(node.value) : String(node.value), `Value of ${node.path} copied`)
+
+  const renderRow = (index: number) => {
+    const row = rows[index]
+    const indent = { paddingLeft: 8 + row.depth * 16 }
+
+    if (row.kind === "more") {
+      return (
+        <div className="flex items-center h-full text-xs" style={indent}>
+          <button type="button" onClick={() => showMore(row.path)} className="ml-4 text-blue-700 hover:underline">
+            Show {Math.min(PAGE_SIZE, row.remaining)} more of {row.remaining} remaining
+          </button>
+        </div>
+      )
+    }
+
+    const { node } = row
+    const composite = isComposite(node.value)
+    return (
+      <div
+        className={`group flex items-center gap-2 h-full pr-2 text-xs cursor-pointer whitespace-nowrap ${
+          index === selectedRow ? "bg-purple-100" : "hover:bg-gray-50"
+        }`}
+        style={indent}
+        onClick={() => onSelectPath(node.path)}
+        onMouseEnter={() => onHoverPath(node.path)}
+      >
+        {composite ? (
+          <button
+            type="button"
+            aria-label={isExpanded(node.path) ? "Collapse" : "Expand"}
+            onClick={(e) => {
+              e.stopPropagation()
+              toggle(node.path)
+            }}
+            className="text-gray-500 hover:text-gray-900"
+          >
+            {isExpanded(node.path) ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          </button>
+        ) : (
+          <span className="w-3 shrink-0" />
+        )}
+        <span className="font-mono font-medium text-gray-900">{node.label}</span>
+        {node.fieldNumber !== undefined && <span className="text-gray-400">= {node.fieldNumber}</span>}
+        {node.type && <span className="text-indigo-600">{node.type}</span>}
+        <span
+          className={`font-mono truncate ${(!composite && VALUE_STYLES[typeof node.value]) || "text-gray-500"}`}
+        >
+          {preview(node.value)}
+        </span>
+        {node.presence && (
+          <span
+            className={`px-1 border rounded text-[10px] ${
+              node.presence === "default" ? "text-amber-700 border-amber-300" : "text-gray-500 border-gray-200"
+            }`}
+            title={
+              node.presence === "default" ? "Not in the input; shown with its default value" : "Read from the input"
+            }
+          >
+            {node.presence}
+          </span>
+        )}
+        <span className="ml-auto hidden group-hover:flex items-center gap-1 text-gray-500">
+          <button
+            type="button"
+            title="Copy value"
+            onClick={(e) => {
+              e.stopPropagation()
+              copyValue(node)
+            }}
+            className="p-0.5 hover:text-gray-900"
+          >
+            <Copy className="w-3 h-3" />
+          </button>
+          <button
+            type="button"
+            title="Copy path"
+            onClick={(e) => {
+              e.stopPropagation()
+              onCopy(node.path, "Field path copied")
+            }}
+            className="p-0.5 hover:text-gray-900"
+          >
+            <Link className="w-3 h-3" />
+          </button>
+          <button
+            type="button"
+            title="Copy as JSON"
+            onClick={(e) => {
+              e.stopPropagation()
+              onCopy(JSON.stringify(node.value, null, 2), `${node.path} copied as JSON`)
+            }}
+            className="p-0.5 hover:text-gray-900"
+          >
+            <Braces className="w-3 h-3" />
+          </button>
+        </span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-500">Hover a row to highlight its bytes in the hex view</span>
+        <Button
+          size="sm"
+          variant="outline"
+          className="ml-auto bg-transparent"
+          onClick={() => setExpansion({ all: true, toggled: new Set() })}
+        >
+          Expand all
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="bg-transparent"
+          onClick={() => setExpansion({ all: false, toggled: new Set() })}
+        >
+          Collapse all
+        </Button>
+      </div>
+      <VirtualList
+        count={rows.length}
+        itemHeight={ROW_HEIGHT}
+        scrollTo={selectedRow}
+        renderItem={renderRow}
+        onMouseLeave={() => onHoverPath(null)}
+        className="border rounded-lg bg-gray-50"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import VirtualList from "./virtual-list"
+import type { WireLayout, WireRecord } from "@/lib/proto/layout"
+import { formatFieldType } from "@/lib/proto/schema"
+import { WIRE_TYPE_NAMES } from "@/lib/proto/wire"
+
+interface HexViewerProps {
+  data: ArrayBuffer
+  layout: WireLayout | null
+  /** Path of the field whose bytes are selected; shared with the decoded output. */
+  selectedPath: string | null
+  onSelectPath: (path: string | null) => void
+  hoveredPath: string | null
+  onHoverPath: (path: string | null) => void
+}
+
+const BYTES_PER_ROW = 16
+const ROW_HEIGHT = 20
+const FIELD_HEIGHT = 24
+
+// What a byte is within the innermost record containing it
+const SEGMENT_NONE = 0
+const SEGMENT_TAG = 1
+const SEGMENT_LENGTH = 2
+const SEGMENT_VALUE = 3
+const SEGMENT_ERROR = 4
+
+const SEGMENT_NAMES = ["not part of a record", "tag", "length prefix", "value", "unreadable"]
+
+const SEGMENT_STYLES = [
+  "text-gray-400",
+  "bg-blue-100 text-blue-900",
+  "bg-amber-100 text-amber-900",
+  "bg-green-50 text-green-900",
+  "bg-red-200 text-red-900",
+]
+
+const SELECTED_STYLES = ["bg-purple-200", "bg-purple-300", "bg-purple-300", "bg-purple-200", "bg-red-300"]
+
+interface FlatRecord {
+  record: WireRecord
+  depth: number
+  end: number
+}
+
+const flatten = (records: WireRecord[], depth = 0, out: FlatRecord[] = []): FlatRecord[] => {
+  for (const record of records) {
+    out.push({ record, depth, end: record.valueOffset + record.valueLength })
+    flatten(record.children, depth + 1, out)
+  }
+  return out
+}
+
+const hex = (value: number, width: number) => value.toString(16).padStart(width, "0")
+
+const printable = (byte: number) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".")
+
+const lastSegment = (path: string) => path.slice(path.lastIndexOf(".") + 1)
+
+const describeRecord = (record: WireRecord) =>
+  record.field ? `${formatFieldType(record.field)} = ${record.fieldNumber}` : `field ${record.fieldNumber}`
+
+// Shows the whole input as hex and ASCII, colored by the part of a record each
+// byte encodes. Selecting a field highlights its bytes and selecting a byte
+// reveals the field it belongs to.
+export default function HexViewer({
+  data,
+  layout,
+  selectedPath,
+  onSelectPath,
+  hoveredPath,
+  onHoverPath,
+}: HexViewerProps) {
+  const [activeByte, setActiveByte] = useState<number | null>(null)
+  const bytes = useMemo(() => new Uint8Array(data), [data])
+  const records = useMemo(() => flatten(layout?.records ?? []), [layout])
+
+  // Children come after their parents, so each byte ends up owned by its innermost record
+  const { segments, owners } = useMemo(() => {
+    const segments = new Uint8Array(bytes.length)
+    const owners = new Int32Array(bytes.length).fill(-1)
+    records.forEach(({ record, end }, index) => {
+      const tagEnd = record.offset + record.tagLength
+      for (let i = record.offset; i < end && i < bytes.length; i++) {
+        segments[i] = i < tagEnd ? SEGMENT_TAG : i < record.valueOffset ? SEGMENT_LENGTH : SEGMENT_VALUE
+        owners[i] = index
+      }
+    })
+    for (const error of layout?.errors ?? []) segments.fill(SEGMENT_ERROR, error.offset, error.end)
+    return { segments, owners }
+  }, [bytes, records, layout])
+
+  const selectedIndex = useMemo(() => records.findIndex((r) => r.record.path === selectedPath), [records, selectedPath])
+  const hoveredIndex = useMemo(() => records.findIndex((r) => r.record.path === hoveredPath), [records, hoveredPath])
+  const selected = selectedIndex >= 0 ? records[selectedIndex] : undefined
+  const hovered = hoveredIndex >= 0 ? records[hoveredIndex] : undefined
+
+  useEffect(() => setActiveByte(null), [data])
+
+  const selectByte = (offset: number) => {
+    setActiveByte(offset)
+    const owner = owners[offset]
+    onSelectPath(owner >= 0 ? records[owner].record.path : null)
+  }
+
+  const selectRecord = (index: number) => {
+    setActiveByte(records[index].record.offset)
+    onSelectPath(records[index].record.path)
+  }
+
+  const hoverByte = (offset: number) => {
+    const owner = owners[offset]
+    onHoverPath(owner >= 0 ? records[owner].record.path : null)
+  }
+
+  const byteClass = (offset: number) => {
+    const segment = segments[offset]
+    const inSelected = selected && offset >= selected.record.offset && offset < selected.end
+    const inHovered = hovered && offset >= hovered.record.offset && offset < hovered.end
+    return [
+      SEGMENT_STYLES[segment],
+      inSelected ? SELECTED_STYLES[segment] : "",
+      inHovered && !inSelected ? "ring-1 ring-inset ring-purple-400" : "",
+      offset === activeByte ? "font-bold underline" : "",
+    ].join(" ")
+  }
+
+  const renderRow = (row: number) => {
+    const start = row * BYTES_PER_ROW
+    const offsets = Array.from({ length: Math.min(BYTES_PER_ROW, bytes.length - start) }, (_, i) => start + i)
+    return (
+      <div className="flex font-mono text-xs leading-5 whitespace-pre">
+        <span className="w-20 shrink-0 text-gray-400 select-none">{hex(start, 8)}</span>
+        <span className="flex shrink-0" style={{ width: BYTES_PER_ROW * 24 }}>
+          {offsets.map((offset) => (
+            <span
+              key={offset}
+              className={`w-6 text-center cursor-pointer ${byteClass(offset)}`}
+              onClick={() => selectByte(offset)}
+              onMouseEnter={() => hoverByte(offset)}
+            >
+              {hex(bytes[offset], 2)}
+            </span>
+          ))}
+        </span>
+        <span className="flex ml-4 shrink-0">
+          {offsets.map((offset) => (
+            <span
+              key={offset}
+              className={`cursor-pointer ${byteClass(offset)}`}
+              onClick={() => selectByte(offset)}
+              onMouseEnter={() => hoverByte(offset)}
+            >
+              {printable(bytes[offset])}
+            </span>
+          ))}
+        </span>
+      </div>
+    )
+  }
+
+  const renderField = (index: number) => {
+    const { record, depth } = records[index]
+    return (
+      <div
+        className={`flex items-center gap-2 h-full pr-2 text-xs cursor-pointer whitespace-nowrap ${
+          index === selectedIndex ? "bg-purple-100" : index === hoveredIndex ? "bg-gray-100" : ""
+        }`}
+        style={{ paddingLeft: 8 + depth * 12 }}
+        onClick={() => selectRecord(index)}
+        onMouseEnter={() => onHoverPath(record.path)}
+      >
+        <code className="font-mono text-gray-800">{lastSegment(record.path)}</code>
+        <span className="text-gray-500">{describeRecord(record)}</span>
+        <span className="ml-auto text-gray-400">
+          @{record.offset}, {record.valueLength} bytes
+        </span>
+      </div>
+    )
+  }
+
+  const activeSegment = activeByte !== null ? segments[activeByte] : SEGMENT_NONE
+  const activeError =
+    activeByte !== null ? layout?.errors.find((e) => activeByte >= e.offset && activeByte < e.end) : undefined
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        {[SEGMENT_TAG, SEGMENT_LENGTH, SEGMENT_VALUE, SEGMENT_ERROR].map((segment) => (
+          <span key={segment} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm border ${SEGMENT_STYLES[segment]}`} />
+            {SEGMENT_NAMES[segment]}
+          </span>
+        ))}
+        <span className="ml-auto">
+          {bytes.length} bytes, {records.length} records
+        </span>
+      </div>
+
+      <div className="grid gap-3 lg:grid-cols-[auto_1fr]">
+        <VirtualList
+          count={Math.ceil(bytes.length / BYTES_PER_ROW)}
+          itemHeight={ROW_HEIGHT}
+          scrollTo={selected ? Math.floor(selected.record.offset / BYTES_PER_ROW) : -1}
+          renderItem={renderRow}
+          onMouseLeave={() => onHoverPath(null)}
+          className="border rounded-lg p-2 bg-gray-50"
+        />
+        <VirtualList
+          count={records.length}
+          itemHeight={FIELD_HEIGHT}
+          scrollTo={selectedIndex}
+          renderItem={renderField}
+          onMouseLeave={() => onHoverPath(null)}
+          className="border rounded-lg"
+        />
+      </div>
+
+      {(selected || activeByte !== null) && (
+        <div className="border rounded-lg px-3 py-2 text-xs text-gray-700 flex flex-wrap gap-x-4 gap-y-1">
+          {activeByte !== null && (
+            <span>
+              Byte {activeByte} (0x{hex(activeByte, 2)}): {SEGMENT_NAMES[activeSegment]}
+            </span>
+          )}
+          {selected && (
+            <>
+              <code className="font-mono text-gray-900">{selected.record.path}</code>
+              <span>{describeRecord(selected.record)}</span>
+              <span>{WIRE_TYPE_NAMES[selected.record.wireType] ?? `wire type ${selected.record.wireType}`}</span>
+              <span>
+                bytes {selected.record.offset}–{selected.end - 1}: tag {selected.record.tagLength}, length prefix{" "}
+                {selected.record.lengthPrefix}, value {selected.record.valueLength}
+              </span>
+            </>
+          )}
+          {activeError && (
+            <span className="text-red-700">
+              {activeError.path || "message"}: {activeError.reason}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import type { BytesFormat, DecodeOptions } from "@/lib/proto/decoder"
+
+export type JsonOutputOptions = Required<
+  Pick<DecodeOptions, "jsonNames" | "enumsAsNumbers" | "int64AsNumber" | "bytesFormat" | "emitDefaults">
+>
+
+/** The proto3 JSON mapping as JsonFormat and protojson print it by default. */
+export const CANONICAL_JSON_OPTIONS: JsonOutputOptions = {
+  jsonNames: true,
+  enumsAsNumbers: false,
+  int64AsNumber: false,
+  bytesFormat: "base64",
+  emitDefaults: false,
+}
+
+interface JsonOutputOptionsPanelProps {
+  options: JsonOutputOptions
+  onChange: (options: JsonOutputOptions) => void
+}
+
+const SELECT_CLASS = "p-1 border rounded-md bg-white text-sm"
+
+export default function JsonOutputOptionsPanel({ options, onChange }: JsonOutputOptionsPanelProps) {
+  const update = (changes: Partial<JsonOutputOptions>) => onChange({ ...options, ...changes })
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="text-sm font-medium">JSON output</div>
+
+      <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-2 text-sm">
+        <Label htmlFor="json-field-names" className="text-sm">
+          Field names
+        </Label>
+        <select
+          id="json-field-names"
+          value={options.jsonNames ? "json" : "proto"}
+          onChange={(e) => update({ jsonNames: e.target.value === "json" })}
+          className={SELECT_CLASS}
+        >
+          <option value="json">lowerCamelCase (json_name)</option>
+          <option value="proto">As declared in the .proto</option>
+        </select>
+
+        <Label htmlFor="json-enums" className="text-sm">
+          Enums
+        </Label>
+        <select
+          id="json-enums"
+          value={options.enumsAsNumbers ? "number" : "name"}
+          onChange={(e) => update({ enumsAsNumbers: e.target.value === "number" })}
+          className={SELECT_CLASS}
+        >
+          <option value="name">Names</option>
+          <option value="number">Numbers</option>
+        </select>
+
+        <Label htmlFor="json-int64" className="text-sm">
+          64-bit integers
+        </Label>
+        <select
+          id="json-int64"
+          value={options.int64AsNumber ? "number" : "string"}
+          onChange={(e) => update({ int64AsNumber: e.target.value === "number" })}
+          className={SELECT_CLASS}
+        >
+          <option value="string">Strings</option>
+          <option value="number">Numbers when safe</option>
+        </select>
+
+        <Label htmlFor="json-bytes" className="text-sm">
+          Bytes
+        </Label>
+        <select
+          id="json-bytes"
+          value={options.bytesFormat}
+          onChange={(e) => update({ bytesFormat: e.target.value as BytesFormat })}
+          className={SELECT_CLASS}
+        >
+          <option value="base64">Base64</option>
+          <option value="hex">Hex</option>
+          <option value="array">Array of octets</option>
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="json-emit-defaults"
+          checked={options.emitDefaults}
+          onCheckedChange={(emitDefaults) => update({ emitDefaults })}
+        />
+        <Label htmlFor="json-emit-defaults" className="text-sm">
+          Emit fields set to their default value
+        </Label>
+      </div>
+
+      <p className="text-xs text-gray-500">Applied on the next decode; choices are remembered in this browser.</p>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { AlertCircle, CheckCircle } from "lucide-react"
+import { verifyProvenance, type Provenance, type ProvenanceMismatch } from "@/lib/proto/provenance"
+import type { WorkspaceFile } from "@/lib/proto/workspace"
+
+interface ProvenancePanelProps {
+  /** Null while metadata is excluded from exports, or when it could not be hashed. */
+  provenance: Provenance | null
+  error: string | null
+  /** Whether copies and downloads are wrapped in a `{ metadata, data }` envelope. */
+  include: boolean
+  onIncludeChange: (include: boolean) => void
+  binary: ArrayBuffer | null
+  files: WorkspaceFile[]
+}
+
+const shortHash = (hash: string) => `${hash.slice(0, 12)}…`
+
+// Summarises where the current result came from, and checks earlier exports
+// against the inputs loaded now
+export default function ProvenancePanel({
+  provenance,
+  error,
+  include,
+  onIncludeChange,
+  binary,
+  files,
+}: ProvenancePanelProps) {
+  const [check, setCheck] = useState<{ name: string; mismatches: ProvenanceMismatch[] } | { error: string } | null>(
+    null,
+  )
+
+  const handleExportUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    try {
+      const mismatches = await verifyProvenance(JSON.parse(await file.text()), binary, files)
+      setCheck({ name: file.name, mismatches })
+    } catch (err) {
+      setCheck({ error: err instanceof Error ? err.message : "Failed to read the export" })
+    }
+  }
+
+  return (
+    <div className="border rounded-lg p-3 mb-4 space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-gray-700">
+        {provenance && (
+          <span>
+            <span className="font-medium">Source:</span> {provenance.source.name}{" "}
+            <code className="text-xs" title={provenance.source.sha256}>
+              sha256 {shortHash(provenance.source.sha256)}
+            </code>
+          </span>
+        )}
+        {!provenance && !error && <span className="text-gray-500">Metadata is not recorded</span>}
+        {error && (
+          <span className="flex items-center gap-1 text-amber-800">
+            <AlertCircle className="w-4 h-4" />
+            Metadata unavailable: {error}
+          </span>
+        )}
+        {provenance?.schema && (
+          <span>
+            <span className="font-medium">Schema:</span> {provenance.schema.message} from{" "}
+            {provenance.schema.files.length} file{provenance.schema.files.length === 1 ? "" : "s"}
+          </span>
+        )}
+        <div className="flex items-center gap-2 ml-auto">
+          <Switch id="include-metadata" checked={include} onCheckedChange={onIncludeChange} />
+          <Label htmlFor="include-metadata" className="text-sm">
+            Include metadata in exports
+          </Label>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Label htmlFor="verify-export" className="text-xs text-gray-600 whitespace-nowrap">
+          Check an exported JSON against the loaded inputs
+        </Label>
+        <Input
+          id="verify-export"
+          type="file"
+          accept=".json,application/json"
+          onChange={handleExportUpload}
+          className="h-8 text-xs cursor-pointer"
+        />
+      </div>
+
+      {check && "error" in check && (
+        <div className="flex items-center gap-2 text-red-700">
+          <AlertCircle className="w-4 h-4" />
+          {check.error}
+        </div>
+      )}
+      {check && "mismatches" in check && check.mismatches.length === 0 && (
+        <div className="flex items-center gap-2 text-green-700">
+          <CheckCircle className="w-4 h-4" />
+          {check.name} was produced from the binary and schema files loaded now
+        </div>
+      )}
+      {check && "mismatches" in check && check.mismatches.length > 0 && (
+        <ul className="list-disc pl-4 space-y-1 text-amber-800">
+          {check.mismatches.map((m) => (
+            <li key={m.what}>
+              {m.what} differs: export has <code className="text-xs">{shortHash(m.expected)}</code>, loaded is{" "}
+              <code className="text-xs">{m.actual.startsWith("(") ? m.actual : shortHash(m.actual)}</code>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
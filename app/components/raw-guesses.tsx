@@ -0,0 +1,61 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import type { RawConfidence, RawInterpretation, RawRecord } from "@/lib/proto/raw"
+
+interface RawGuessesProps {
+  records: RawRecord[]
+  overrides: Record<string, RawInterpretation>
+  onOverride: (path: string, kind: RawInterpretation | undefined) => void
+}
+
+const CONFIDENCE_STYLES: Record<RawConfidence, string> = {
+  high: "bg-green-50 text-green-700 border-green-200",
+  medium: "bg-amber-50 text-amber-700 border-amber-200",
+  low: "bg-red-50 text-red-700 border-red-200",
+}
+
+// Lists every length-delimited record with its guessed reading and lets the user pick another
+export default function RawGuesses({ records, overrides, onOverride }: RawGuessesProps) {
+  const guessed = records.filter((record) => record.guess)
+  if (guessed.length === 0) return null
+
+  return (
+    <div className="mb-4 border rounded-lg overflow-hidden">
+      <div className="px-4 py-2 bg-gray-50 border-b text-sm font-medium text-gray-700">
+        Length-delimited fields ({guessed.length})
+      </div>
+      <div className="max-h-64 overflow-y-auto divide-y">
+        {guessed.map((record) => {
+          const guess = record.guess!
+          return (
+            <div key={record.path} className="flex flex-wrap items-center gap-2 px-4 py-2 text-sm">
+              <code className="font-mono text-xs text-gray-800">{record.path}</code>
+              <span className="text-xs text-gray-500">
+                @{record.offset}, {record.length} bytes
+              </span>
+              <Badge variant="outline" className={`text-xs ${CONFIDENCE_STYLES[guess.confidence]}`}>
+                {guess.kind} · {guess.confidence}
+              </Badge>
+              <select
+                aria-label={`Interpretation of ${record.path}`}
+                value={overrides[record.path] ?? ""}
+                onChange={(e) =>
+                  onOverride(record.path, (e.target.value || undefined) as RawInterpretation | undefined)
+                }
+                className="ml-auto p-1 border rounded-md bg-white text-xs"
+              >
+                <option value="">Auto ({guess.kind})</option>
+                {guess.candidates.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {kind}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
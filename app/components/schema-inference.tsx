@@ -0,0 +1,193 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Download, FileText, Wand2 } from "lucide-react"
+import { inferSchema, renderInferredProto, type InferredMessage } from "@/lib/proto/infer"
+
+interface SampleFile {
+  name: string
+  content: ArrayBuffer
+}
+
+interface SchemaInferenceProps {
+  /** The binary currently loaded for decoding; always used as the first sample. */
+  binaryFile: SampleFile | null
+  onLoad: (content: string, messageName: string) => void
+}
+
+// Fields are addressed by the chain of field numbers leading to them
+const withMessage = (root: InferredMessage, path: number[], update: (message: InferredMessage) => void) => {
+  const next = structuredClone(root)
+  let message = next
+  for (const number of path) {
+    message = message.fields.find((f) => f.number === number)!.message!
+  }
+  update(message)
+  return next
+}
+
+interface MessageEditorProps {
+  message: InferredMessage
+  path: number[]
+  onRenameMessage: (path: number[], name: string) => void
+  onRenameField: (path: number[], number: number, name: string) => void
+}
+
+function MessageEditor({ message, path, onRenameMessage, onRenameField }: MessageEditorProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-500 w-16">message</span>
+        <Input
+          aria-label="Message name"
+          value={message.name}
+          onChange={(e) => onRenameMessage(path, e.target.value)}
+          className="h-8 text-sm font-mono"
+        />
+      </div>
+      {message.fields.map((field) => (
+        <div key={field.number} className="pl-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="font-mono text-xs w-16 justify-center">
+              #{field.number}
+            </Badge>
+            <span className="text-xs text-gray-600 font-mono w-40 truncate">
+              {field.repeated ? "repeated " : ""}
+              {field.message ? field.message.name : field.type}
+            </span>
+            <Input
+              aria-label={`Name of field ${field.number}`}
+              value={field.name}
+              onChange={(e) => onRenameField(path, field.number, e.target.value)}
+              className="h-8 text-sm font-mono"
+            />
+          </div>
+          {field.message && (
+            <div className="border-l-2 border-gray-200 pl-2">
+              <MessageEditor
+                message={field.message}
+                path={[...path, field.number]}
+                onRenameMessage={onRenameMessage}
+                onRenameField={onRenameField}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Infers a draft .proto from sample binaries, lets the user name things, then
+// hands the result back to be used as the active schema
+export default function SchemaInference({ binaryFile, onLoad }: SchemaInferenceProps) {
+  const [extraSamples, setExtraSamples] = useState<SampleFile[]>([])
+  const [inferred, setInferred] = useState<InferredMessage | null>(null)
+  const [sampleCount, setSampleCount] = useState(0)
+  const [warnings, setWarnings] = useState<string[]>([])
+
+  const samples = [...(binaryFile ? [binaryFile] : []), ...extraSamples]
+
+  const handleSampleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ""
+    const loaded = await Promise.all(files.map(async (file) => ({ name: file.name, content: await file.arrayBuffer() })))
+    setExtraSamples((prev) => [...prev, ...loaded])
+  }
+
+  const runInference = () => {
+    const result = inferSchema(samples.map((s) => s.content), inferred?.name || "Inferred")
+    setInferred(result.message)
+    setSampleCount(result.samples)
+    setWarnings(result.warnings)
+  }
+
+  const renameMessage = (path: number[], name: string) => {
+    if (!inferred) return
+    setInferred(withMessage(inferred, path, (message) => (message.name = name)))
+  }
+
+  const renameField = (path: number[], number: number, name: string) => {
+    if (!inferred) return
+    setInferred(
+      withMessage(inferred, path, (message) => {
+        message.fields.find((f) => f.number === number)!.name = name
+      }),
+    )
+  }
+
+  const protoText = inferred ? renderInferredProto(inferred, sampleCount) : ""
+
+  const downloadProto = () => {
+    const blob = new Blob([protoText], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `${inferred?.name || "inferred"}.proto`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="flex-1">
+          <Label htmlFor="sample-upload" className="text-sm font-medium">
+            Additional sample binaries
+          </Label>
+          <Input id="sample-upload" type="file" multiple onChange={handleSampleUpload} className="mt-2 cursor-pointer" />
+        </div>
+        <div className="flex gap-2">
+          {extraSamples.length > 0 && (
+            <Button variant="outline" onClick={() => setExtraSamples([])}>
+              Clear samples
+            </Button>
+          )}
+          <Button onClick={runInference} disabled={samples.length === 0} className="flex items-center gap-2">
+            <Wand2 className="w-4 h-4" />
+            Infer from {samples.length} sample{samples.length === 1 ? "" : "s"}
+          </Button>
+        </div>
+      </div>
+
+      {warnings.length > 0 && (
+        <ul className="list-disc pl-4 space-y-1 text-sm text-amber-800">
+          {warnings.map((warning, i) => (
+            <li key={i}>{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {inferred && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="border rounded-lg p-4 max-h-96 overflow-y-auto">
+            <MessageEditor message={inferred} path={[]} onRenameMessage={renameMessage} onRenameField={renameField} />
+          </div>
+          <div className="space-y-2">
+            <pre className="bg-gray-50 border rounded-lg p-4 overflow-auto text-xs max-h-80">
+              <code className="text-gray-800">{protoText}</code>
+            </pre>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={downloadProto} className="flex items-center gap-2">
+                <Download className="w-4 h-4" />
+                Download .proto
+              </Button>
+              <Button size="sm" onClick={() => onLoad(protoText, inferred.name)} className="flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                Use as schema
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
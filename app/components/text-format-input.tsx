@@ -0,0 +1,108 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, ArrowRight } from "lucide-react"
+import { encodeProtobufData } from "@/lib/proto/encoder"
+import { ProtoSyntaxError } from "@/lib/proto/lexer"
+import type { ProtoMessage, ProtoSchema } from "@/lib/proto/schema"
+import { parseTextProto } from "@/lib/proto/textformat"
+
+interface TextFormatInputProps {
+  /** Message type the text is parsed as; parsing is disabled without one. */
+  message: ProtoMessage | undefined
+  schema: ProtoSchema | undefined
+  onLoad: (name: string, content: ArrayBuffer) => void
+}
+
+// Parses pasted or uploaded protobuf text format and hands it on encoded, so it
+// can be decoded like any uploaded binary
+export default function TextFormatInput({ message, schema, onLoad }: TextFormatInputProps) {
+  const [source, setSource] = useState("")
+  const [fileName, setFileName] = useState("input.textproto")
+  const [error, setError] = useState<{ message: string; line?: number; column?: number } | null>(null)
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    setSource(await file.text())
+    setFileName(file.name)
+    setError(null)
+  }
+
+  const parse = () => {
+    if (!message || !schema) return
+    try {
+      const data = parseTextProto(source, message, schema)
+      const bytes = encodeProtobufData(data, message, schema)
+      setError(null)
+      onLoad(fileName, bytes.buffer)
+    } catch (err) {
+      if (err instanceof ProtoSyntaxError) {
+        setError({ message: err.message, line: err.line, column: err.column })
+      } else {
+        setError({ message: err instanceof Error ? err.message : "Failed to parse text format" })
+      }
+    }
+  }
+
+  const errorLine = error?.line !== undefined ? source.split("\n")[error.line - 1] : undefined
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="textproto-input" className="text-sm font-medium">
+          Or paste text format
+        </Label>
+        <Input
+          aria-label="Upload text format file"
+          type="file"
+          accept=".textproto,.txtpb,.pbtxt,.txt"
+          onChange={handleUpload}
+          className="w-56 h-8 text-xs cursor-pointer"
+        />
+      </div>
+      <Textarea
+        id="textproto-input"
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        placeholder={'name: "example"\nitems { id: 1 }'}
+        spellCheck={false}
+        className="font-mono text-xs min-h-[120px]"
+      />
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="text-sm space-y-1">
+            <div>{error.message}</div>
+            {errorLine !== undefined && (
+              <pre className="font-mono text-xs overflow-x-auto">
+                {errorLine}
+                {"\n"}
+                {" ".repeat(Math.max(0, error.column! - 1))}^
+              </pre>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={parse}
+        disabled={!source.trim() || !message}
+        title={message ? undefined : "Select a message type first"}
+        className="flex items-center gap-2 bg-transparent"
+      >
+        <ArrowRight className="w-4 h-4" />
+        Parse as {message?.name ?? "message"}
+      </Button>
+    </div>
+  )
+}
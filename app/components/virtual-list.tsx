@@ -0,0 +1,63 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+
+const OVERSCAN = 8
+
+interface VirtualListProps {
+  count: number
+  itemHeight: number
+  /** Item scrolled into view whenever it changes; -1 for none. */
+  scrollTo: number
+  renderItem: (index: number) => React.ReactNode
+  /** Height of the scrolling viewport in pixels. */
+  height?: number
+  className?: string
+  onMouseLeave?: () => void
+}
+
+// Renders only the rows in view, so lists of any length scroll smoothly
+export default function VirtualList({
+  count,
+  itemHeight,
+  scrollTo,
+  renderItem,
+  height = 384,
+  className,
+  onMouseLeave,
+}: VirtualListProps) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [scrollTop, setScrollTop] = useState(0)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || scrollTo < 0) return
+    const top = scrollTo * itemHeight
+    if (top < element.scrollTop || top + itemHeight > element.scrollTop + height) {
+      element.scrollTop = Math.max(0, top - height / 3)
+    }
+  }, [scrollTo, itemHeight, height])
+
+  const first = Math.max(0, Math.floor(scrollTop / itemHeight) - OVERSCAN)
+  const last = Math.min(count, Math.ceil((scrollTop + height) / itemHeight) + OVERSCAN)
+
+  return (
+    <div
+      ref={ref}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      onMouseLeave={onMouseLeave}
+      className={`overflow-auto ${className ?? ""}`}
+      style={{ height }}
+    >
+      <div className="relative" style={{ height: count * itemHeight }}>
+        {Array.from({ length: Math.max(0, last - first) }, (_, i) => first + i).map((index) => (
+          <div key={index} className="absolute left-0 right-0" style={{ top: index * itemHeight, height: itemHeight }}>
+            {renderItem(index)}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { AlertCircle, CheckCircle, ChevronDown, ChevronRight } from "lucide-react"
+import { describeWireValue, type WireLayout, type WireRecord, type WireRegionError } from "@/lib/proto/layout"
+import type { ProtoSchema } from "@/lib/proto/schema"
+import { WIRE_TYPE_LENGTH_DELIMITED, WIRE_TYPE_NAMES } from "@/lib/proto/wire"
+import VirtualList from "./virtual-list"
+
+interface WireTreeProps {
+  data: ArrayBuffer
+  layout: WireLayout
+  /** Used to name fields and read values by their declared types; absent in raw mode. */
+  schema?: ProtoSchema
+  selectedPath: string | null
+  onSelectPath: (path: string | null) => void
+}
+
+type WireRow =
+  | { kind: "record"; record: WireRecord; depth: number }
+  | { kind: "unreadable"; region: WireRegionError; depth: number }
+
+const ROW_HEIGHT = 24
+const COLUMNS = "grid grid-cols-[minmax(12rem,2fr)_4.5rem_7rem_7.5rem_4rem_minmax(10rem,3fr)] gap-2 items-center"
+
+const hasChildren = (record: WireRecord) => record.children.length > 0 || !!record.unreadable
+
+const lastSegment = (path: string) => path.slice(path.lastIndexOf(".") + 1)
+
+const hexBytes = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(" ")
+
+// Records whose children are hidden are keyed by offset, which no two records share
+const collectParents = (records: WireRecord[], out = new Set<number>()) => {
+  for (const record of records) {
+    if (hasChildren(record)) out.add(record.offset)
+    collectParents(record.children, out)
+  }
+  return out
+}
+
+// Lists the input record by record as it sits on the wire, nesting the records
+// of submessages and packed fields, and marking bytes that cannot be read
+export default function WireTree({ data, layout, schema, selectedPath, onSelectPath }: WireTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set())
+  const bytes = useMemo(() => new Uint8Array(data), [data])
+
+  useEffect(() => setCollapsed(new Set()), [layout])
+
+  const rows = useMemo(() => {
+    const rows: WireRow[] = []
+    const visit = (records: WireRecord[], unreadable: WireRegionError | undefined, depth: number) => {
+      for (const record of records) {
+        rows.push({ kind: "record", record, depth })
+        if (!collapsed.has(record.offset)) visit(record.children, record.unreadable, depth + 1)
+      }
+      if (unreadable) rows.push({ kind: "unreadable", region: unreadable, depth })
+    }
+    visit(layout.records, layout.unreadable, 0)
+    return rows
+  }, [layout, collapsed])
+
+  const selectedRow = rows.findIndex((row) => row.kind === "record" && row.record.path === selectedPath)
+
+  const toggle = (offset: number) => {
+    const next = new Set(collapsed)
+    if (next.has(offset)) {
+      next.delete(offset)
+    } else {
+      next.add(offset)
+    }
+    setCollapsed(next)
+  }
+
+  const renderRow = (index: number) => {
+    const row = rows[index]
+    const indent = { paddingLeft: row.depth * 16 }
+
+    if (row.kind === "unreadable") {
+      const { region } = row
+      return (
+        <div className={`${COLUMNS} h-full px-2 text-xs bg-red-50 text-red-800`}>
+          <div className="flex items-center gap-1 font-medium" style={indent}>
+            <AlertCircle className="w-3 h-3 shrink-0 ml-4" />
+            Unreadable
+          </div>
+          <span className="font-mono">{region.offset}</span>
+          <span className="font-mono truncate">{hexBytes(bytes.subarray(region.offset, region.offset + 2))}</span>
+          <span />
+          <span className="font-mono">{region.end - region.offset}</span>
+          <span className="truncate" title={region.reason}>
+            {region.reason}
+          </span>
+        </div>
+      )
+    }
+
+    const { record } = row
+    const tagBytes = bytes.subarray(record.offset, record.offset + record.tagLength)
+    const value = describeWireValue(bytes, record, schema)
+    return (
+      <div
+        className={`${COLUMNS} h-full px-2 text-xs cursor-pointer whitespace-nowrap ${
+          index === selectedRow ? "bg-purple-100" : "hover:bg-gray-50"
+        }`}
+        onClick={() => onSelectPath(record.path)}
+      >
+        <div className="flex items-center gap-1 min-w-0" style={indent}>
+          {hasChildren(record) ? (
+            <button
+              type="button"
+              aria-label={collapsed.has(record.offset) ? "Expand" : "Collapse"}
+              onClick={(e) => {
+                e.stopPropagation()
+                toggle(record.offset)
+              }}
+              className="text-gray-500 hover:text-gray-900"
+            >
+              {collapsed.has(record.offset) ? (
+                <ChevronRight className="w-3 h-3" />
+              ) : (
+                <ChevronDown className="w-3 h-3" />
+              )}
+            </button>
+          ) : (
+            <span className="w-3 shrink-0" />
+          )}
+          <span className="font-mono font-medium">{record.fieldNumber}</span>
+          <span className="text-gray-500 truncate">{lastSegment(record.path)}</span>
+        </div>
+        <span className="font-mono text-gray-600">{record.offset}</span>
+        <span className="font-mono text-gray-600 truncate">
+          {record.tagLength > 0 ? `${hexBytes(tagBytes)} = ${record.fieldNumber * 8 + record.wireType}` : "packed"}
+        </span>
+        <span className="text-gray-600">{WIRE_TYPE_NAMES[record.wireType] ?? `wire type ${record.wireType}`}</span>
+        <span className="font-mono text-gray-600">
+          {record.wireType === WIRE_TYPE_LENGTH_DELIMITED ? record.valueLength : ""}
+        </span>
+        <span className="font-mono text-gray-800 truncate" title={value}>
+          {value}
+        </span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {layout.errors.length === 0 ? (
+          <span className="flex items-center gap-1 text-green-700">
+            <CheckCircle className="w-4 h-4" />
+            Every byte belongs to a well-framed record
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-red-700">
+            <AlertCircle className="w-4 h-4" />
+            {layout.errors.length} unreadable region{layout.errors.length === 1 ? "" : "s"}, first at byte{" "}
+            {layout.errors[0].offset}
+          </span>
+        )}
+        <Button size="sm" variant="outline" className="ml-auto bg-transparent" onClick={() => setCollapsed(new Set())}>
+          Expand all
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="bg-transparent"
+          onClick={() => setCollapsed(collectParents(layout.records))}
+        >
+          Collapse all
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <div className="min-w-[48rem]">
+          <div className={`${COLUMNS} px-2 py-1 border-b bg-gray-50 text-xs font-medium text-gray-600`}>
+            <span>Field</span>
+            <span>Offset</span>
+            <span>Tag</span>
+            <span>Wire type</span>
+            <span>Length</span>
+            <span>Value</span>
+          </div>
+          <VirtualList
+            count={rows.length}
+            itemHeight={ROW_HEIGHT}
+            scrollTo={selectedRow}
+            renderItem={renderRow}
+            height={Math.min(384, Math.max(rows.length, 1) * ROW_HEIGHT)}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
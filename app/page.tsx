@@ -2,42 +2,76 @@
 
 import type React from "react"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect, useRef } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { FileText, Binary, ArrowRight, Copy, Download, AlertCircle, Info, Code, Eye } from "lucide-react"
+import {
+  FileText,
+  Binary,
+  ArrowRight,
+  Copy,
+  Download,
+  AlertCircle,
+  Info,
+  Code,
+  Eye,
+  FolderOpen,
+  Trash2,
+  Wand2,
+  ScanSearch,
+  FileDown,
+  CheckCircle,
+  Repeat,
+  FileCode,
+  ScanLine,
+  ListTree,
+} from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import MonacoJsonEditor from "./components/monaco-json-editor"
-
-interface ProtoField {
-  type: string
-  name: string
-  number: number
-  repeated: boolean
-  optional: boolean
-}
-
-interface ProtoMessage {
-  name: string
-  fields: ProtoField[]
-}
-
-interface ProtoSchema {
-  package: string
-  messages: ProtoMessage[]
-}
-
-interface ProtoFile {
-  name: string
-  content: string
-  size: number
-  schema?: ProtoSchema
-}
+import RawGuesses from "./components/raw-guesses"
+import SchemaInference from "./components/schema-inference"
+import TextFormatInput from "./components/text-format-input"
+import JsonOutputOptionsPanel, { CANONICAL_JSON_OPTIONS, type JsonOutputOptions } from "./components/json-output-options"
+import ProvenancePanel from "./components/provenance-panel"
+import HexViewer from "./components/hex-viewer"
+import WireTree from "./components/wire-tree"
+import DecodedTree from "./components/decoded-tree"
+import { findEnum, formatFieldType, type ProtoEnum, type ProtoField, type ProtoSchema } from "@/lib/proto/schema"
+import {
+  DEFAULT_MAX_DEPTH,
+  decodeProtobufData,
+  type DecodedData,
+  type DecodeDiagnostic,
+  type DecodeError,
+  type MapEntryIndex,
+  type OneofCase,
+  type UnknownField,
+  UNKNOWN_FIELDS_KEY,
+} from "@/lib/proto/decoder"
+import { buildWorkspace, type ProtoWorkspace } from "@/lib/proto/workspace"
+import { WIRE_TYPE_NAMES } from "@/lib/proto/wire"
+import { detectMessageType, type TypeCandidate } from "@/lib/proto/detect"
+import { encodeProtobufData } from "@/lib/proto/encoder"
+import { verifyRoundTrip, type RoundTripReport } from "@/lib/proto/roundtrip"
+import { decodeRaw, type RawInterpretation, type RawRecord } from "@/lib/proto/raw"
+import { formatTextProto } from "@/lib/proto/textformat"
+import {
+  buildProvenance,
+  type DecodeEnvelope,
+  type Provenance,
+  type ProvenanceInput,
+} from "@/lib/proto/provenance"
+import { mapWireLayout, type WireLayout } from "@/lib/proto/layout"
+
+// Workspace path of a schema inferred from sample binaries; loading a new one replaces it
+const INFERRED_PROTO_PATH = "inferred.proto"
+const JSON_OPTIONS_STORAGE_KEY = "proto-tool:json-options"
 
 interface BinaryFile {
   name: string
@@ -45,268 +79,149 @@ interface BinaryFile {
   size: number
 }
 
-interface DecodedData {
-  [key: string]: any
-}
-
 export default function ProtoBinaryDecoder() {
-  const [protoFile, setProtoFile] = useState<ProtoFile | null>(null)
+  const [workspace, setWorkspace] = useState<ProtoWorkspace | null>(null)
   const [binaryFile, setBinaryFile] = useState<BinaryFile | null>(null)
   const [decodedData, setDecodedData] = useState<DecodedData | null>(null)
   const [editedData, setEditedData] = useState<DecodedData | null>(null)
+  const [oneofCases, setOneofCases] = useState<OneofCase[]>([])
+  const [decodeWarnings, setDecodeWarnings] = useState<string[]>([])
+  const [decodeErrors, setDecodeErrors] = useState<DecodeError[]>([])
+  const [diagnostics, setDiagnostics] = useState<DecodeDiagnostic[]>([])
+  const [roundTrip, setRoundTrip] = useState<RoundTripReport | null>(null)
+  const [unknownFields, setUnknownFields] = useState<{ path: string; field: UnknownField }[]>([])
+  const [unresolvedAnyTypes, setUnresolvedAnyTypes] = useState<string[]>([])
+  const [defaultedPaths, setDefaultedPaths] = useState<string[]>([])
+  const [mapEntries, setMapEntries] = useState<MapEntryIndex[]>([])
+  const [provenance, setProvenance] = useState<Provenance | null>(null)
+  const [provenanceInput, setProvenanceInput] = useState<ProvenanceInput | null>(null)
+  const [provenanceError, setProvenanceError] = useState<string | null>(null)
+  const [includeMetadata, setIncludeMetadata] = useState(true)
   const [selectedMessage, setSelectedMessage] = useState<string>("")
+  const [typeCandidates, setTypeCandidates] = useState<TypeCandidate[] | null>(null)
   const [isDecoding, setIsDecoding] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [viewMode, setViewMode] = useState<"preview" | "editor">("preview")
+  const [maxDepth, setMaxDepth] = useState(DEFAULT_MAX_DEPTH)
+  const [jsonOptions, setJsonOptions] = useState<JsonOutputOptions>(CANONICAL_JSON_OPTIONS)
+  // Options the current result was decoded with; edits are encoded back using the same spelling
+  const [decodedJsonOptions, setDecodedJsonOptions] = useState<JsonOutputOptions>(CANONICAL_JSON_OPTIONS)
+  // Message the current result was decoded as, which the dropdown may no longer show; null in raw mode
+  const [decodedMessage, setDecodedMessage] = useState<string | null>(null)
+  const [strictMode, setStrictMode] = useState(false)
+  const [rawMode, setRawMode] = useState(false)
+  const [rawRecords, setRawRecords] = useState<RawRecord[] | null>(null)
+  const [rawOverrides, setRawOverrides] = useState<Record<string, RawInterpretation>>({})
+  const [viewMode, setViewMode] = useState<"preview" | "editor" | "textproto" | "wire">("preview")
+  const [wireLayout, setWireLayout] = useState<WireLayout | null>(null)
+  const [selectedPath, setSelectedPath] = useState<string | null>(null)
+  const [hoveredPath, setHoveredPath] = useState<string | null>(null)
+  const protoInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
 
-  const parseProtoFile = (content: string): ProtoSchema => {
-    const schema: ProtoSchema = {
-      package: "",
-      messages: [],
-    }
-
-    // Extract package name
-    const packageMatch = content.match(/package\s+([^;]+);/)
-    if (packageMatch) {
-      schema.package = packageMatch[1].trim()
-    }
-
-    // Extract message definitions
-    const messageRegex = /message\s+(\w+)\s*\{([^{}]*(?:\{[^{}]*\}[^{}]*)*)\}/g
-    let messageMatch
-
-    while ((messageMatch = messageRegex.exec(content)) !== null) {
-      const messageName = messageMatch[1]
-      const messageBody = messageMatch[2]
-
-      const message: ProtoMessage = {
-        name: messageName,
-        fields: [],
-      }
-
-      // Extract field definitions
-      const fieldRegex = /(repeated\s+|optional\s+)?(\w+)\s+(\w+)\s*=\s*(\d+);/g
-      let fieldMatch
-
-      while ((fieldMatch = fieldRegex.exec(messageBody)) !== null) {
-        const modifier = fieldMatch[1]?.trim() || ""
-        const type = fieldMatch[2]
-        const name = fieldMatch[3]
-        const number = Number.parseInt(fieldMatch[4])
-
-        message.fields.push({
-          type,
-          name,
-          number,
-          repeated: modifier === "repeated",
-          optional: modifier === "optional",
-        })
-      }
-
-      schema.messages.push(message)
-    }
-
-    return schema
-  }
-
-  const decodeVarint = (data: Uint8Array, offset: number): { value: number; newOffset: number } => {
-    let result = 0
-    let shift = 0
-    let currentOffset = offset
-
-    while (currentOffset < data.length) {
-      const byte = data[currentOffset]
-      result |= (byte & 0x7f) << shift
-
-      if ((byte & 0x80) === 0) {
-        return { value: result, newOffset: currentOffset + 1 }
-      }
-
-      shift += 7
-      currentOffset++
-
-      if (shift >= 64) {
-        throw new Error("Varint too long")
-      }
+  // Restored after mounting, as localStorage is not available during server rendering
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(JSON_OPTIONS_STORAGE_KEY)
+      if (saved) setJsonOptions({ ...CANONICAL_JSON_OPTIONS, ...JSON.parse(saved) })
+    } catch {
+      // Unreadable settings fall back to the canonical mapping
     }
+  }, [])
 
-    throw new Error("Unexpected end of data while reading varint")
+  const updateJsonOptions = (options: JsonOutputOptions) => {
+    setJsonOptions(options)
+    localStorage.setItem(JSON_OPTIONS_STORAGE_KEY, JSON.stringify(options))
   }
 
-  const decodeString = (data: Uint8Array, offset: number, length: number): string => {
-    const bytes = data.slice(offset, offset + length)
-    return new TextDecoder().decode(bytes)
-  }
-
-  const decodeProtobufData = (binaryData: ArrayBuffer, message: ProtoMessage): DecodedData => {
-    const data = new Uint8Array(binaryData)
-    const result: DecodedData = {}
-    let offset = 0
-
-    // Initialize repeated fields as arrays
-    message.fields.forEach((field) => {
-      if (field.repeated) {
-        result[field.name] = []
-      }
+  const readFileAsText = (file: File) =>
+    new Promise<string>((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = (e) => resolve(e.target?.result as string)
+      reader.onerror = () => reject(reader.error)
+      reader.readAsText(file)
     })
 
-    while (offset < data.length) {
-      try {
-        // Read field tag (field number + wire type)
-        const { value: tag, newOffset: tagOffset } = decodeVarint(data, offset)
-        offset = tagOffset
-
-        const fieldNumber = tag >>> 3
-        const wireType = tag & 0x07
-
-        // Find field definition
-        const field = message.fields.find((f) => f.number === fieldNumber)
-        if (!field) {
-          // Skip unknown field
-          offset = skipField(data, offset, wireType)
-          continue
-        }
-
-        let value: any
-
-        switch (wireType) {
-          case 0: // Varint
-            const { value: varintValue, newOffset: varintOffset } = decodeVarint(data, offset)
-            offset = varintOffset
-
-            if (field.type === "bool") {
-              value = varintValue !== 0
-            } else if (field.type === "int32" || field.type === "int64") {
-              value = varintValue
-            } else {
-              value = varintValue
-            }
-            break
-
-          case 2: // Length-delimited
-            const { value: length, newOffset: lengthOffset } = decodeVarint(data, offset)
-            offset = lengthOffset
-
-            if (field.type === "string") {
-              value = decodeString(data, offset, length)
-            } else if (field.type === "bytes") {
-              value = Array.from(data.slice(offset, offset + length))
-            } else {
-              // Could be a nested message or packed repeated field
-              value = `<${field.type} data: ${length} bytes>`
-            }
-            offset += length
-            break
-
-          case 1: // 64-bit
-            // Read 8 bytes for double/fixed64
-            if (offset + 8 <= data.length) {
-              const bytes = data.slice(offset, offset + 8)
-              value = `<64-bit: ${Array.from(bytes)
-                .map((b) => b.toString(16).padStart(2, "0"))
-                .join(" ")}>`
-              offset += 8
-            } else {
-              throw new Error("Not enough data for 64-bit field")
-            }
-            break
-
-          case 5: // 32-bit
-            // Read 4 bytes for float/fixed32
-            if (offset + 4 <= data.length) {
-              const bytes = data.slice(offset, offset + 4)
-              if (field.type === "float") {
-                const view = new DataView(bytes.buffer, bytes.byteOffset, 4)
-                value = view.getFloat32(0, true) // little-endian
-              } else {
-                value = `<32-bit: ${Array.from(bytes)
-                  .map((b) => b.toString(16).padStart(2, "0"))
-                  .join(" ")}>`
-              }
-              offset += 4
-            } else {
-              throw new Error("Not enough data for 32-bit field")
-            }
-            break
-
-          default:
-            throw new Error(`Unknown wire type: ${wireType}`)
-        }
-
-        // Store the value
-        if (field.repeated) {
-          result[field.name].push(value)
-        } else {
-          result[field.name] = value
-        }
-      } catch (err) {
-        console.error("Error decoding field:", err)
-        break
-      }
-    }
-
-    return result
-  }
-
-  const skipField = (data: Uint8Array, offset: number, wireType: number): number => {
-    switch (wireType) {
-      case 0: // Varint
-        const { newOffset } = decodeVarint(data, offset)
-        return newOffset
-      case 1: // 64-bit
-        return offset + 8
-      case 2: // Length-delimited
-        const { value: length, newOffset: lengthOffset } = decodeVarint(data, offset)
-        return lengthOffset + length
-      case 5: // 32-bit
-        return offset + 4
-      default:
-        throw new Error(`Cannot skip unknown wire type: ${wireType}`)
-    }
-  }
-
+  // Uploaded files are added to the current workspace, replacing any file at the same path
   const handleProtoUpload = useCallback(
-    (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0]
-      if (!file) return
-
-      if (!file.name.endsWith(".proto")) {
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files ?? []).filter((file) => file.name.endsWith(".proto"))
+      event.target.value = ""
+      if (files.length === 0) {
         toast({
           title: "Invalid file type",
-          description: "Please upload a .proto file",
+          description: "Please upload one or more .proto files",
           variant: "destructive",
         })
         return
       }
 
-      const reader = new FileReader()
-      reader.onload = (e) => {
-        const content = e.target?.result as string
-        try {
-          const schema = parseProtoFile(content)
-          const protoFileData: ProtoFile = {
-            name: file.name,
-            content,
+      try {
+        const loaded = await Promise.all(
+          files.map(async (file) => ({
+            path: file.webkitRelativePath || file.name,
+            content: await readFileAsText(file),
             size: file.size,
-            schema,
-          }
-          setProtoFile(protoFileData)
-          setSelectedMessage(schema.messages[0]?.name || "")
-          setError(null)
-          toast({
-            title: "Proto file uploaded",
-            description: `Found ${schema.messages.length} message(s)`,
-          })
-        } catch (err) {
-          setError(`Failed to parse proto file: ${err instanceof Error ? err.message : "Unknown error"}`)
+          })),
+        )
+        const existing = (workspace?.files ?? []).filter((f) => !f.bundled && !loaded.some((l) => l.path === f.path))
+        const nextWorkspace = buildWorkspace([...existing, ...loaded])
+        setWorkspace(nextWorkspace)
+        setTypeCandidates(null)
+
+        const messages = nextWorkspace.schema.messages.filter((m) => !m.mapEntry)
+        if (!messages.some((m) => m.fullName === selectedMessage)) {
+          setSelectedMessage(messages[0]?.fullName || "")
         }
+
+        const failed = nextWorkspace.files.filter((f) => f.error)
+        setError(failed.length > 0 ? `Failed to parse ${failed.map((f) => `${f.path}: ${f.error}`).join("; ")}` : null)
+        toast({
+          title: `${loaded.length} proto file(s) uploaded`,
+          description: `Workspace has ${nextWorkspace.files.length} file(s) and ${messages.length} message(s)`,
+        })
+      } catch (err) {
+        setError(`Failed to read proto files: ${err instanceof Error ? err.message : "Unknown error"}`)
       }
-      reader.readAsText(file)
     },
-    [toast],
+    [toast, workspace, selectedMessage],
   )
 
+  const clearWorkspace = () => {
+    setWorkspace(null)
+    setSelectedMessage("")
+    setTypeCandidates(null)
+  }
+
+  // Ranks every message in the workspace by how well the binary decodes as it
+  const detectType = () => {
+    if (!workspace || !binaryFile) return
+    const candidates = detectMessageType(binaryFile.content, workspace.schema, { maxDepth })
+    setTypeCandidates(candidates)
+    if (candidates[0]) setSelectedMessage(candidates[0].message)
+  }
+
+  const loadInferredSchema = (content: string, messageName: string) => {
+    const existing = (workspace?.files ?? []).filter((f) => !f.bundled && f.path !== INFERRED_PROTO_PATH)
+    const nextWorkspace = buildWorkspace([
+      ...existing,
+      { path: INFERRED_PROTO_PATH, content, size: new TextEncoder().encode(content).length },
+    ])
+    const inferredFile = nextWorkspace.files.find((f) => f.path === INFERRED_PROTO_PATH)
+    if (inferredFile?.error) {
+      toast({ title: "Inferred schema is invalid", description: inferredFile.error, variant: "destructive" })
+      return
+    }
+
+    setWorkspace(nextWorkspace)
+    setSelectedMessage(messageName)
+    setTypeCandidates(null)
+    setRawMode(false)
+    toast({
+      title: "Schema loaded",
+      description: `${messageName} is now the selected message type`,
+    })
+  }
+
   const handleBinaryUpload = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0]
@@ -320,6 +235,9 @@ export default function ProtoBinaryDecoder() {
           content,
           size: file.size,
         })
+        setWireLayout(null)
+        setSelectedPath(null)
+        setTypeCandidates(null)
         setError(null)
         toast({
           title: "Binary file uploaded",
@@ -331,18 +249,127 @@ export default function ProtoBinaryDecoder() {
     [toast],
   )
 
+  // Text format input is encoded as the selected message and then treated like an uploaded binary
+  const loadTextFormat = (name: string, content: ArrayBuffer) => {
+    setBinaryFile({ name, content, size: content.byteLength })
+    setWireLayout(null)
+    setSelectedPath(null)
+    setTypeCandidates(null)
+    setError(null)
+    toast({
+      title: "Text format parsed",
+      description: `${name} encoded as ${selectedMessage} (${formatBytes(content.byteLength)})`,
+    })
+  }
+
+  // A decode that hit unreadable records still yields the fields read before them
+  const decodeToast = (errors: DecodeError[], how: string, issues = 0) => {
+    if (errors.length > 0) {
+      return {
+        title: "Decoding partial",
+        description: `Binary data decoded ${how}, but ${errors.length} record${errors.length === 1 ? "" : "s"} could not be read`,
+        variant: "destructive" as const,
+      }
+    }
+    if (issues > 0) {
+      return {
+        title: "Validation failed",
+        description: `Binary data decoded ${how} with ${issues} strict-mode issue${issues === 1 ? "" : "s"}`,
+        variant: "destructive" as const,
+      }
+    }
+    return {
+      title: "Decoding successful",
+      description: `Binary data decoded ${how}`,
+    }
+  }
+
+  // Provenance is hashed only when exports include it, and after the decode has been
+  // shown: hashing needs crypto.subtle, which insecure contexts lack
+  const recordProvenance = async (input: ProvenanceInput | null, include = includeMetadata) => {
+    setProvenanceInput(input)
+    setProvenance(null)
+    setProvenanceError(null)
+    if (!input || !include) return
+    try {
+      setProvenance(await buildProvenance(input))
+    } catch (err) {
+      setProvenanceError(err instanceof Error ? err.message : "Failed to record provenance")
+    }
+  }
+
+  const updateIncludeMetadata = (include: boolean) => {
+    setIncludeMetadata(include)
+    if (include && !provenance) recordProvenance(provenanceInput, include)
+  }
+
+  // Raw mode walks the wire format without a schema; overrides replace the guessed
+  // reading of individual length-delimited fields
+  const decodeRawData = async (overrides: Record<string, RawInterpretation>): Promise<DecodeError[]> => {
+    if (!binaryFile) return []
+
+    const { data: decoded, records, warnings, errors } = decodeRaw(binaryFile.content, overrides, maxDepth)
+    setDecodedData(decoded)
+    setEditedData(decoded)
+    setRawRecords(records)
+    setDecodedMessage(null)
+    setWireLayout(mapWireLayout(binaryFile.content, { overrides, maxDepth }))
+    setOneofCases([])
+    setDecodeWarnings(warnings)
+    setDecodeErrors(errors)
+    setRoundTrip(null)
+    setDiagnostics([])
+    setUnknownFields([])
+    setUnresolvedAnyTypes([])
+    setDefaultedPaths([])
+    setMapEntries([])
+    await recordProvenance({ source: binaryFile, options: { raw: true, maxDepth, overrides }, warnings, errors })
+    return errors
+  }
+
+  const handleRawOverride = async (path: string, kind: RawInterpretation | undefined) => {
+    const next = { ...rawOverrides }
+    if (kind) {
+      next[path] = kind
+    } else {
+      delete next[path]
+    }
+    setRawOverrides(next)
+    try {
+      await decodeRawData(next)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to decode binary data")
+    }
+  }
+
   const decodeData = async () => {
-    if (!protoFile || !binaryFile || !selectedMessage) {
-      setError("Proto file, binary file, and message type selection are required")
+    if (rawMode && binaryFile) {
+      setIsDecoding(true)
+      setError(null)
+      try {
+        setRawOverrides({})
+        const errors = await decodeRawData({})
+        toast(decodeToast(errors, "without a schema"))
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Failed to decode binary data"
+        setError(errorMessage)
+        toast({
+          title: "Decoding failed",
+          description: errorMessage,
+          variant: "destructive",
+        })
+      } finally {
+        setIsDecoding(false)
+      }
       return
     }
 
-    if (!protoFile.schema) {
-      setError("Proto file schema not parsed")
+    if (!workspace || !binaryFile || !selectedMessage) {
+      setError("Proto file, binary file, and message type selection are required")
       return
     }
 
-    const message = protoFile.schema.messages.find((m) => m.name === selectedMessage)
+    const message = workspace.schema.messages.find((m) => m.fullName === selectedMessage)
     if (!message) {
       setError("Selected message not found in schema")
       return
@@ -352,23 +379,46 @@ export default function ProtoBinaryDecoder() {
     setError(null)
 
     try {
-      const decoded = decodeProtobufData(binaryFile.content, message)
-      const finalData = {
-        _metadata: {
-          message_type: selectedMessage,
-          package: protoFile.schema.package,
-          binary_size: binaryFile.size,
-          decoded_at: new Date().toISOString(),
+      const options = { ...jsonOptions, maxDepth, strict: strictMode }
+      const {
+        data: decoded,
+        oneofCases,
+        warnings,
+        errors,
+        diagnostics,
+        unknownFields,
+        unresolvedAnyTypes,
+        defaulted,
+        mapEntries: decodedMapEntries,
+      } = decodeProtobufData(binaryFile.content, message, workspace.schema, options)
+      setDecodedData(decoded)
+      setEditedData(decoded)
+      setDecodedJsonOptions(jsonOptions)
+      setDecodedMessage(selectedMessage)
+      setRawRecords(null)
+      setWireLayout(mapWireLayout(binaryFile.content, { message, schema: workspace.schema, maxDepth }))
+      setOneofCases(oneofCases)
+      setDecodeWarnings(warnings)
+      setDecodeErrors(errors)
+      setRoundTrip(null)
+      setDiagnostics(diagnostics)
+      setUnknownFields(unknownFields)
+      setUnresolvedAnyTypes(unresolvedAnyTypes)
+      setDefaultedPaths(defaulted)
+      setMapEntries(decodedMapEntries)
+      await recordProvenance({
+        source: binaryFile,
+        schema: {
+          message: selectedMessage,
+          package: workspace.files.find((f) => f.path === message.file)?.schema?.package ?? "",
+          files: workspace.files.filter((f) => !f.error),
         },
-        ...decoded,
-      }
-      setDecodedData(finalData)
-      setEditedData(finalData)
-
-      toast({
-        title: "Decoding successful",
-        description: `Binary data decoded as ${selectedMessage}`,
+        options,
+        warnings,
+        errors,
       })
+
+      toast(decodeToast(errors, `as ${selectedMessage}`, diagnostics.length))
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to decode binary data"
       setError(errorMessage)
@@ -386,29 +436,149 @@ export default function ProtoBinaryDecoder() {
     setEditedData(newData)
   }
 
-  const copyToClipboard = (text: string) => {
+  // Exports carry their provenance in a separate envelope, never inside the message itself
+  const exportJson = () => {
+    const data = editedData || decodedData
+    const exported: DecodeEnvelope | DecodedData | null =
+      includeMetadata && provenance && data ? { metadata: provenance, data } : data
+    return JSON.stringify(exported, null, 2)
+  }
+
+  // Why an export asked to carry metadata went without it: hashing is pending or failed
+  const metadataLeftOut = () =>
+    includeMetadata && !provenance
+      ? `Metadata was left out: ${provenanceError ?? "its hashes are still being computed"}.`
+      : null
+
+  const copyToClipboard = (text: string, description = "JSON data copied to clipboard") => {
     navigator.clipboard.writeText(text)
     toast({
       title: "Copied",
-      description: "JSON data copied to clipboard",
+      description,
     })
   }
 
   const downloadJson = () => {
-    const dataToDownload = editedData || decodedData
-    if (!dataToDownload) return
+    if (!editedData && !decodedData) return
 
-    const blob = new Blob([JSON.stringify(dataToDownload, null, 2)], { type: "application/json" })
+    const blob = new Blob([exportJson()], { type: "application/json" })
+    const leftOut = metadataLeftOut()
+    if (leftOut) toast({ title: "Downloaded without metadata", description: leftOut })
     const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
     a.href = url
-    a.download = `decoded_${selectedMessage}.json`
+    a.download = `decoded_${rawRecords ? "raw" : selectedMessage}.json`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
   }
 
+  // Re-encodes the (possibly edited) JSON as the selected message, e.g. to build test fixtures
+  const findDecodedMessage = () => workspace?.schema.messages.find((m) => m.fullName === decodedMessage)
+
+  const downloadBinary = () => {
+    const dataToEncode = editedData || decodedData
+    const message = findDecodedMessage()
+    if (!dataToEncode || !workspace || !message) return
+
+    try {
+      const bytes = encodeProtobufData(dataToEncode, message, workspace.schema, decodedJsonOptions)
+
+      const blob = new Blob([bytes], { type: "application/octet-stream" })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = `encoded_${message.fullName}.bin`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      toast({
+        title: "Encoding failed",
+        description: err instanceof Error ? err.message : "Failed to encode JSON data",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const renderTextProto = (): { text: string } | { error: string } => {
+    const data = editedData || decodedData
+    const message = findDecodedMessage()
+    if (!data || !workspace || !message || rawRecords) return { error: "Text format needs a schema" }
+
+    try {
+      return { text: formatTextProto(data, message, workspace.schema, decodedJsonOptions) }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : "Failed to render text format" }
+    }
+  }
+
+  const downloadTextProto = (text: string) => {
+    const blob = new Blob([text], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `decoded_${decodedMessage}.textproto`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  // Re-encodes the original upload and compares it byte for byte with the file
+  const runRoundTrip = () => {
+    const message = findDecodedMessage()
+    if (!binaryFile || !workspace || !message) return
+
+    try {
+      setRoundTrip(verifyRoundTrip(binaryFile.content, message, workspace.schema, { maxDepth }))
+    } catch (err) {
+      setRoundTrip(null)
+      toast({
+        title: "Round-trip failed",
+        description: err instanceof Error ? err.message : "Failed to re-encode the decoded data",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Enums referenced by the message's fields, plus any declared inside it
+  const getMessageEnums = (schema: ProtoSchema, messageName: string): ProtoEnum[] => {
+    const message = schema.messages.find((m) => m.fullName === messageName)
+    if (!message) return []
+
+    const enums = new Map<string, ProtoEnum>()
+    message.fields.forEach((field) => {
+      const enumType = field.resolvedType ? findEnum(schema, field.resolvedType) : undefined
+      if (enumType) enums.set(enumType.fullName, enumType)
+    })
+    schema.enums
+      .filter((e) => e.fullName.startsWith(`${message.fullName}.`))
+      .forEach((e) => enums.set(e.fullName, e))
+    return Array.from(enums.values())
+  }
+
+  const selectedEnums = workspace ? getMessageEnums(workspace.schema, selectedMessage) : []
+  const selectedMessageDef = workspace?.schema.messages.find((m) => m.fullName === selectedMessage)
+
+  const renderField = (field: ProtoField) => (
+    <div key={field.name} className="flex items-center gap-2 p-2 bg-white rounded border">
+      <Badge variant="outline" className="text-xs font-mono shrink-0">
+        {field.number}
+      </Badge>
+      <div className="text-sm text-blue-800 truncate">
+        <span className="font-medium">
+          {field.repeated && "repeated "}
+          {field.optional && "optional "}
+          {formatFieldType(field)}
+        </span>
+        <span className="text-blue-600 ml-1">{field.name}</span>
+      </div>
+    </div>
+  )
+
   const formatBytes = (bytes: number) => {
     if (bytes === 0) return "0 Bytes"
     const k = 1024
@@ -417,6 +587,9 @@ export default function ProtoBinaryDecoder() {
     return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
   }
 
+  // Only rendered while its tab is open, as formatting large messages is not free
+  const textProto = decodedData && viewMode === "textproto" ? renderTextProto() : null
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="container mx-auto p-4 sm:p-6 max-w-7xl">
@@ -437,77 +610,205 @@ export default function ProtoBinaryDecoder() {
                   <FileText className="w-5 h-5 text-blue-600" />
                   Proto Schema
                 </CardTitle>
-                <CardDescription>Upload your .proto file to define the message structure</CardDescription>
+                <CardDescription>
+                  Upload your .proto files, or a whole directory, to define the message structure
+                </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div>
-                  <Label htmlFor="proto-upload" className="text-sm font-medium">
-                    Select .proto file
-                  </Label>
-                  <Input
-                    id="proto-upload"
-                    type="file"
-                    accept=".proto"
-                    onChange={handleProtoUpload}
-                    className="mt-2 cursor-pointer"
-                  />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="proto-upload" className="text-sm font-medium">
+                      Select .proto files
+                    </Label>
+                    <Input
+                      ref={protoInputRef}
+                      id="proto-upload"
+                      type="file"
+                      accept=".proto"
+                      multiple
+                      onChange={handleProtoUpload}
+                      className="mt-2 cursor-pointer"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="proto-directory-upload" className="text-sm font-medium">
+                      Or a directory
+                    </Label>
+                    <Input
+                      id="proto-directory-upload"
+                      type="file"
+                      multiple
+                      onChange={handleProtoUpload}
+                      className="mt-2 cursor-pointer"
+                      {...{ webkitdirectory: "", directory: "" }}
+                    />
+                  </div>
                 </div>
 
-                {protoFile && protoFile.schema && (
+                {workspace && (
                   <div className="space-y-4">
                     <div className="p-4 border rounded-lg bg-green-50 border-green-200">
                       <div className="flex items-center gap-2 mb-2">
-                        <FileText className="w-4 h-4 text-green-600" />
-                        <span className="font-medium text-green-800 truncate">{protoFile.name}</span>
+                        <FolderOpen className="w-4 h-4 text-green-600" />
+                        <span className="font-medium text-green-800">Workspace</span>
                         <Badge variant="secondary" className="ml-auto">
-                          {formatBytes(protoFile.size)}
+                          {workspace.files.length} file(s)
                         </Badge>
+                        <Button size="sm" variant="ghost" onClick={clearWorkspace} className="h-7 px-2">
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
                       </div>
-                      <div className="text-sm text-green-700">
-                        Package: <code className="bg-green-100 px-1 rounded">{protoFile.schema.package || "none"}</code>
+                      <div className="space-y-1 max-h-40 overflow-y-auto">
+                        {workspace.files.map((file) => (
+                          <div key={file.path} className="flex items-center gap-2 text-sm">
+                            <FileText className={`w-3 h-3 shrink-0 ${file.error ? "text-red-600" : "text-green-600"}`} />
+                            <span className={`truncate ${file.error ? "text-red-700" : "text-green-800"}`}>{file.path}</span>
+                            <code className="bg-green-100 px-1 rounded text-xs text-green-700">
+                              {file.schema?.package || (file.error ? "parse error" : "no package")}
+                            </code>
+                            {file.bundled && (
+                              <Badge variant="outline" className="text-xs">
+                                bundled
+                              </Badge>
+                            )}
+                            <span className="ml-auto text-xs text-green-700 shrink-0">{formatBytes(file.size)}</span>
+                          </div>
+                        ))}
                       </div>
                     </div>
 
+                    {(workspace.unresolvedImports.length > 0 || workspace.unresolvedTypes.length > 0) && (
+                      <Alert className="border-amber-200 bg-amber-50">
+                        <AlertCircle className="h-4 w-4 text-amber-600" />
+                        <AlertDescription className="text-amber-800 text-sm space-y-1">
+                          {workspace.unresolvedImports.map((imp) => (
+                            <div key={`${imp.file}:${imp.path}`}>
+                              <code>{imp.file}</code> imports <code>{imp.path}</code>, which has not been uploaded
+                            </div>
+                          ))}
+                          {workspace.unresolvedTypes.map((t) => (
+                            <div key={`${t.message}.${t.field}`}>
+                              <code>
+                                {t.message}.{t.field}
+                              </code>{" "}
+                              has unresolved type <code>{t.type}</code>
+                            </div>
+                          ))}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
                     <div>
-                      <Label htmlFor="message-select" className="text-sm font-medium">
-                        Select Message Type
-                      </Label>
+                      <div className="flex items-center justify-between gap-2">
+                        <Label htmlFor="message-select" className="text-sm font-medium">
+                          Select Message Type
+                        </Label>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={detectType}
+                          disabled={!binaryFile}
+                          title={binaryFile ? undefined : "Upload a binary file first"}
+                          className="h-7 px-2 flex items-center gap-1"
+                        >
+                          <ScanSearch className="w-4 h-4" />
+                          Detect type
+                        </Button>
+                      </div>
                       <select
                         id="message-select"
                         value={selectedMessage}
                         onChange={(e) => setSelectedMessage(e.target.value)}
                         className="w-full mt-2 p-2 border rounded-md bg-white text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                       >
-                        {protoFile.schema.messages.map((message) => (
-                          <option key={message.name} value={message.name}>
-                            {message.name} ({message.fields.length} fields)
-                          </option>
-                        ))}
+                        {workspace.schema.messages
+                          .filter((message) => !message.mapEntry)
+                          .map((message) => (
+                            <option key={message.fullName} value={message.fullName}>
+                              {message.fullName} ({message.fields.length} fields)
+                            </option>
+                          ))}
                       </select>
                     </div>
 
+                    {typeCandidates && (
+                      <div className="border rounded-lg overflow-hidden">
+                        <div className="px-3 py-2 bg-gray-50 border-b text-xs font-medium text-gray-700">
+                          Best fits for {binaryFile?.name}
+                        </div>
+                        <div className="max-h-48 overflow-y-auto divide-y">
+                          {typeCandidates.slice(0, 10).map((candidate) => (
+                            <button
+                              key={candidate.message}
+                              type="button"
+                              onClick={() => setSelectedMessage(candidate.message)}
+                              className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs hover:bg-blue-50 ${
+                                candidate.message === selectedMessage ? "bg-blue-50" : ""
+                              }`}
+                            >
+                              <Badge
+                                variant="outline"
+                                className={`w-12 justify-center ${
+                                  candidate.score >= 90
+                                    ? "bg-green-50 text-green-700 border-green-200"
+                                    : candidate.score >= 50
+                                      ? "bg-amber-50 text-amber-700 border-amber-200"
+                                      : "bg-red-50 text-red-700 border-red-200"
+                                }`}
+                              >
+                                {candidate.score}
+                              </Badge>
+                              <span className="font-mono truncate">{candidate.message}</span>
+                              <span className="ml-auto text-gray-500 shrink-0">
+                                {[
+                                  candidate.unknownFields > 0 && `${candidate.unknownFields} unknown`,
+                                  candidate.wireTypeMismatches > 0 && `${candidate.wireTypeMismatches} wire-type`,
+                                  candidate.invalidUtf8 > 0 && `${candidate.invalidUtf8} bad UTF-8`,
+                                  !candidate.consumed && "truncated",
+                                ]
+                                  .filter(Boolean)
+                                  .join(", ") || "clean"}
+                              </span>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {selectedMessage && (
                       <div className="p-4 border rounded-lg bg-blue-50 border-blue-200">
                         <h4 className="font-medium mb-3 text-blue-900">Message Structure: {selectedMessage}</h4>
                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-48 overflow-y-auto">
-                          {protoFile.schema.messages
-                            .find((m) => m.name === selectedMessage)
-                            ?.fields.map((field) => (
-                              <div key={field.name} className="flex items-center gap-2 p-2 bg-white rounded border">
-                                <Badge variant="outline" className="text-xs font-mono shrink-0">
-                                  {field.number}
-                                </Badge>
-                                <div className="text-sm text-blue-800 truncate">
-                                  <span className="font-medium">
-                                    {field.repeated && "repeated "}
-                                    {field.optional && "optional "}
-                                    {field.type}
-                                  </span>
-                                  <span className="text-blue-600 ml-1">{field.name}</span>
+                          {selectedMessageDef?.fields.filter((field) => !field.oneof).map(renderField)}
+                        </div>
+                        {selectedMessageDef?.oneofs.map((oneof) => (
+                          <div key={oneof.name} className="mt-3 p-2 border border-dashed border-blue-300 rounded">
+                            <div className="text-sm font-medium text-blue-900 mb-2">
+                              oneof {oneof.name}
+                              <span className="ml-2 text-xs font-normal text-blue-700">at most one member is set</span>
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                              {selectedMessageDef.fields.filter((field) => field.oneof === oneof.name).map(renderField)}
+                            </div>
+                          </div>
+                        ))}
+                        {selectedEnums.length > 0 && (
+                          <div className="mt-3 space-y-2">
+                            <h5 className="text-sm font-medium text-blue-900">Enums</h5>
+                            {selectedEnums.map((enumType) => (
+                              <div key={enumType.fullName} className="p-2 bg-white rounded border">
+                                <div className="text-sm font-medium text-blue-800 mb-1">{enumType.name}</div>
+                                <div className="flex flex-wrap gap-1">
+                                  {enumType.values.map((value) => (
+                                    <Badge key={value.name} variant="secondary" className="text-xs font-mono">
+                                      {value.name} = {value.number}
+                                    </Badge>
+                                  ))}
                                 </div>
                               </div>
                             ))}
-                        </div>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -532,22 +833,53 @@ export default function ProtoBinaryDecoder() {
                   <Input id="binary-upload" type="file" onChange={handleBinaryUpload} className="mt-2 cursor-pointer" />
                 </div>
 
+                {!rawMode && (
+                  <TextFormatInput
+                    message={workspace?.schema.messages.find((m) => m.fullName === selectedMessage)}
+                    schema={workspace?.schema}
+                    onLoad={loadTextFormat}
+                  />
+                )}
+
+                <div>
+                  <Label htmlFor="max-depth" className="text-sm font-medium">
+                    Max nesting depth
+                  </Label>
+                  <Input
+                    id="max-depth"
+                    type="number"
+                    min={1}
+                    value={maxDepth}
+                    onChange={(e) => setMaxDepth(Math.max(1, Number.parseInt(e.target.value) || DEFAULT_MAX_DEPTH))}
+                    className="mt-2 w-32"
+                  />
+                </div>
+
+                {!rawMode && <JsonOutputOptionsPanel options={jsonOptions} onChange={updateJsonOptions} />}
+
+                <div className="flex items-center gap-2">
+                  <Switch id="strict-mode" checked={strictMode} onCheckedChange={setStrictMode} />
+                  <Label htmlFor="strict-mode" className="text-sm">
+                    Strict validation (report wire-type, UTF-8, range, enum and duplicate-field issues)
+                  </Label>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Switch id="raw-mode" checked={rawMode} onCheckedChange={setRawMode} />
+                  <Label htmlFor="raw-mode" className="text-sm">
+                    Decode without a schema (raw mode)
+                  </Label>
+                </div>
+
                 {binaryFile && (
                   <div className="p-4 border rounded-lg bg-purple-50 border-purple-200">
-                    <div className="flex items-center gap-2 mb-2">
+                    <div className="flex items-center gap-2">
                       <Binary className="w-4 h-4 text-purple-600" />
                       <span className="font-medium text-purple-800 truncate">{binaryFile.name}</span>
                       <Badge variant="secondary" className="ml-auto">
                         {formatBytes(binaryFile.size)}
                       </Badge>
                     </div>
-                    <div className="text-sm text-purple-700">
-                      <div className="font-medium mb-1">Binary Preview:</div>
-                      <code className="bg-purple-100 px-2 py-1 rounded text-xs font-mono break-all">
-                        {new Uint8Array(binaryFile.content).slice(0, 32).join(" ")}
-                        {binaryFile.size > 32 && "..."}
-                      </code>
-                    </div>
                   </div>
                 )}
               </CardContent>
@@ -558,7 +890,7 @@ export default function ProtoBinaryDecoder() {
           <div className="flex justify-center">
             <Button
               onClick={decodeData}
-              disabled={!protoFile || !binaryFile || !selectedMessage || isDecoding}
+              disabled={!binaryFile || isDecoding || (!rawMode && (!workspace || !selectedMessage))}
               size="lg"
               className="px-8 py-3 text-base font-medium"
             >
@@ -576,6 +908,24 @@ export default function ProtoBinaryDecoder() {
             </Button>
           </div>
 
+          {/* Schema Inference */}
+          {rawMode && (
+            <Card className="shadow-sm">
+              <CardHeader className="pb-4">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Wand2 className="w-5 h-5 text-indigo-600" />
+                  Infer Schema
+                </CardTitle>
+                <CardDescription>
+                  Draft a .proto from sample binaries, name its fields, then download it or decode with it
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SchemaInference binaryFile={binaryFile} onLoad={loadInferredSchema} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Error Display */}
           {error && (
             <Alert variant="destructive" className="shadow-sm">
@@ -595,14 +945,19 @@ export default function ProtoBinaryDecoder() {
                       Decoded JSON Data
                     </CardTitle>
                     <CardDescription className="mt-1">
-                      Binary data decoded using {selectedMessage} message structure
+                      {rawRecords
+                        ? "Binary data decoded without a schema, keyed by field number"
+                        : `Binary data decoded using ${selectedMessage} message structure`}
                     </CardDescription>
                   </div>
                   <div className="flex gap-2">
                     <Button
                       size="sm"
                       variant="outline"
-                      onClick={() => copyToClipboard(JSON.stringify(editedData || decodedData, null, 2))}
+                      onClick={() => {
+                        const leftOut = metadataLeftOut()
+                        copyToClipboard(exportJson(), leftOut ? `JSON data copied to clipboard. ${leftOut}` : undefined)
+                      }}
                       className="flex items-center gap-2"
                     >
                       <Copy className="w-4 h-4" />
@@ -617,12 +972,236 @@ export default function ProtoBinaryDecoder() {
                       <Download className="w-4 h-4" />
                       Download
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={downloadBinary}
+                      disabled={!!rawRecords || !selectedMessage}
+                      title={rawRecords ? "Re-encoding needs a schema" : undefined}
+                      className="flex items-center gap-2 bg-transparent"
+                    >
+                      <FileDown className="w-4 h-4" />
+                      Download .bin
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={runRoundTrip}
+                      disabled={!!rawRecords || !selectedMessage}
+                      className="flex items-center gap-2 bg-transparent"
+                    >
+                      <Repeat className="w-4 h-4" />
+                      Verify round-trip
+                    </Button>
                   </div>
                 </div>
               </CardHeader>
               <CardContent>
-                <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as "preview" | "editor")}>
-                  <TabsList className="grid w-full grid-cols-2 mb-4">
+                {provenanceInput && (
+                  <ProvenancePanel
+                    provenance={provenance}
+                    error={provenanceError}
+                    include={includeMetadata}
+                    onIncludeChange={updateIncludeMetadata}
+                    binary={binaryFile?.content ?? null}
+                    files={workspace?.files ?? []}
+                  />
+                )}
+
+                {roundTrip &&
+                  (roundTrip.undecodable ? (
+                    <Alert className="mb-4 border-amber-200 bg-amber-50">
+                      <AlertCircle className="h-4 w-4 text-amber-600" />
+                      <AlertDescription className="text-amber-800 text-sm">
+                        <div className="font-medium mb-1">
+                          Round-trip not checked: {binaryFile?.name} could not be decoded in full.
+                        </div>
+                        <ul className="list-disc pl-4 space-y-1">
+                          {roundTrip.undecodable.map((err, i) => (
+                            <li key={i}>
+                              <span className="font-mono">
+                                @{err.offset} {err.path || "(root)"}
+                              </span>
+                              : {err.reason}
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  ) : roundTrip.identical ? (
+                    <Alert className="mb-4 border-green-200 bg-green-50">
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                      <AlertDescription className="text-green-800 text-sm">
+                        Re-encoding reproduces all {roundTrip.originalSize} bytes of {binaryFile?.name} exactly.
+                      </AlertDescription>
+                    </Alert>
+                  ) : (
+                    <div className="mb-4 border border-amber-200 rounded-lg overflow-hidden">
+                      <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-800">
+                        <span className="font-medium">Round-trip differs</span> from byte{" "}
+                        {roundTrip.firstDifference?.offset}
+                        {roundTrip.firstDifference?.path && (
+                          <>
+                            {" "}
+                            (<code>{roundTrip.firstDifference.path}</code>)
+                          </>
+                        )}
+                        ; original {roundTrip.originalSize} bytes, re-encoded {roundTrip.encodedSize} bytes
+                      </div>
+                      <div className="max-h-48 overflow-y-auto divide-y text-xs">
+                        {roundTrip.divergences.map((d, i) => (
+                          <div key={i} className="flex flex-wrap items-center gap-2 px-4 py-1">
+                            <Badge variant="outline" className="text-xs">
+                              {d.kind}
+                            </Badge>
+                            <code className="font-mono">{d.path || "(root)"}</code>
+                            <span className="font-mono text-gray-500">@{d.offset}</span>
+                            <span className="text-gray-700">{d.detail}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+
+                {decodeErrors.length > 0 && (
+                  <Alert variant="destructive" className="mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      <div className="font-medium mb-1">Decoding stopped early; the result below is partial.</div>
+                      <ul className="list-disc pl-4 space-y-1 text-sm">
+                        {decodeErrors.map((err, i) => (
+                          <li key={i}>
+                            <span className="font-mono">
+                              @{err.offset} {err.path || "(root)"}
+                            </span>
+                            {err.wireType !== undefined && ` (${WIRE_TYPE_NAMES[err.wireType] ?? `wire type ${err.wireType}`})`}
+                            : {err.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {diagnostics.length > 0 && (
+                  <div className="mb-4 border border-red-200 rounded-lg overflow-hidden">
+                    <div className="px-4 py-2 bg-red-50 border-b border-red-200 text-sm font-medium text-red-800">
+                      Strict validation: {diagnostics.length} issue{diagnostics.length === 1 ? "" : "s"}
+                    </div>
+                    <div className="max-h-64 overflow-auto">
+                      <table className="w-full text-xs">
+                        <thead className="bg-gray-50 text-gray-600">
+                          <tr>
+                            <th className="text-left font-medium px-3 py-1">Field</th>
+                            <th className="text-left font-medium px-3 py-1">Offset</th>
+                            <th className="text-left font-medium px-3 py-1">Issue</th>
+                            <th className="text-left font-medium px-3 py-1">Expected</th>
+                            <th className="text-left font-medium px-3 py-1">Actual</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                          {diagnostics.map((d, i) => (
+                            <tr key={i}>
+                              <td className="px-3 py-1 font-mono">{d.path}</td>
+                              <td className="px-3 py-1 font-mono">{d.offset}</td>
+                              <td className="px-3 py-1">{d.kind}</td>
+                              <td className="px-3 py-1">{d.expected}</td>
+                              <td className="px-3 py-1">{d.actual}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
+                {decodeWarnings.length > 0 && (
+                  <Alert className="mb-4 border-amber-200 bg-amber-50">
+                    <AlertCircle className="h-4 w-4 text-amber-600" />
+                    <AlertDescription className="text-amber-800">
+                      <ul className="list-disc pl-4 space-y-1 text-sm">
+                        {decodeWarnings.map((warning, i) => (
+                          <li key={i}>{warning}</li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {unknownFields.length > 0 && (
+                  <div className="mb-4 border border-slate-300 rounded-lg overflow-hidden">
+                    <div className="px-4 py-2 bg-slate-100 border-b border-slate-300 text-sm text-slate-800">
+                      <span className="font-medium">
+                        {unknownFields.length} unknown field{unknownFields.length === 1 ? "" : "s"}
+                      </span>{" "}
+                      not in the schema, kept under <code>{UNKNOWN_FIELDS_KEY}</code> and written back unchanged by Download .bin
+                    </div>
+                    <div className="max-h-48 overflow-y-auto divide-y text-xs">
+                      {unknownFields.map(({ path, field }, i) => (
+                        <div key={i} className="flex items-center gap-2 px-4 py-1">
+                          <code className="font-mono text-slate-700">
+                            {path ? `${path}.` : ""}#{field.number}
+                          </code>
+                          <Badge variant="outline" className="text-xs">
+                            {WIRE_TYPE_NAMES[field.wireType] ?? field.wireType}
+                          </Badge>
+                          <span className="font-mono text-slate-600 truncate">{JSON.stringify(field.value)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {unresolvedAnyTypes.length > 0 && (
+                  <Alert className="mb-4 border-blue-200 bg-blue-50">
+                    <Info className="h-4 w-4 text-blue-600" />
+                    <AlertDescription className="text-blue-800 text-sm">
+                      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                        <span>
+                          Any payloads of type{" "}
+                          {unresolvedAnyTypes.map((type, i) => (
+                            <span key={type}>
+                              {i > 0 && ", "}
+                              <code>{type}</code>
+                            </span>
+                          ))}{" "}
+                          are shown as raw bytes. Load the .proto that defines them and decode again.
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => protoInputRef.current?.click()}
+                          className="sm:ml-auto shrink-0"
+                        >
+                          <FileText className="w-4 h-4 mr-1" />
+                          Load schema
+                        </Button>
+                      </div>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {rawRecords && (
+                  <RawGuesses records={rawRecords} overrides={rawOverrides} onOverride={handleRawOverride} />
+                )}
+
+                {oneofCases.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-700">
+                    <span className="font-medium">Oneof members set:</span>
+                    {oneofCases.map((c) => (
+                      <Badge key={`${c.path}.${c.oneof}`} variant="outline" className="font-mono text-xs">
+                        {c.path ? `${c.path}.` : ""}
+                        {c.oneof} = {c.field}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                <Tabs
+                  value={viewMode}
+                  onValueChange={(value) => setViewMode(value as "preview" | "editor" | "textproto" | "wire")}
+                >
+                  <TabsList className="grid w-full grid-cols-4 mb-4">
                     <TabsTrigger value="preview" className="flex items-center gap-2">
                       <Eye className="w-4 h-4" />
                       Preview
@@ -631,14 +1210,31 @@ export default function ProtoBinaryDecoder() {
                       <Code className="w-4 h-4" />
                       Monaco Editor
                     </TabsTrigger>
+                    <TabsTrigger value="textproto" className="flex items-center gap-2">
+                      <FileCode className="w-4 h-4" />
+                      Text Format
+                    </TabsTrigger>
+                    <TabsTrigger value="wire" className="flex items-center gap-2">
+                      <ListTree className="w-4 h-4" />
+                      Wire
+                    </TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="preview">
-                    <div className="border rounded-lg overflow-hidden">
-                      <pre className="bg-gray-50 p-4 overflow-x-auto text-sm max-h-96 overflow-y-auto">
-                        <code className="text-gray-800">{JSON.stringify(editedData || decodedData, null, 2)}</code>
-                      </pre>
-                    </div>
+                    <DecodedTree
+                      data={editedData || decodedData}
+                      message={
+                        rawRecords ? undefined : workspace?.schema.messages.find((m) => m.fullName === selectedMessage)
+                      }
+                      schema={workspace?.schema}
+                      rawRecords={rawRecords ?? undefined}
+                      defaulted={defaultedPaths}
+                      mapEntries={mapEntries}
+                      selectedPath={selectedPath}
+                      onSelectPath={setSelectedPath}
+                      onHoverPath={setHoveredPath}
+                      onCopy={copyToClipboard}
+                    />
                   </TabsContent>
 
                   <TabsContent value="editor">
@@ -646,11 +1242,88 @@ export default function ProtoBinaryDecoder() {
                       <MonacoJsonEditor value={editedData || decodedData} onChange={handleJsonChange} height="500px" />
                     </div>
                   </TabsContent>
+
+                  <TabsContent value="textproto">
+                    {textProto && "error" in textProto && (
+                      <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription className="text-sm">{textProto.error}</AlertDescription>
+                      </Alert>
+                    )}
+                    {textProto && "text" in textProto && (
+                      <div className="space-y-2">
+                        <div className="border rounded-lg overflow-hidden">
+                          <pre className="bg-gray-50 p-4 overflow-x-auto text-sm max-h-96 overflow-y-auto">
+                            <code className="text-gray-800">{textProto.text}</code>
+                          </pre>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => copyToClipboard(textProto.text)}
+                            className="flex items-center gap-2"
+                          >
+                            <Copy className="w-4 h-4" />
+                            Copy
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => downloadTextProto(textProto.text)}
+                            className="flex items-center gap-2 bg-transparent"
+                          >
+                            <Download className="w-4 h-4" />
+                            Download .textproto
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="wire">
+                    {binaryFile && wireLayout && (
+                      <WireTree
+                        data={binaryFile.content}
+                        layout={wireLayout}
+                        schema={rawRecords ? undefined : workspace?.schema}
+                        selectedPath={selectedPath}
+                        onSelectPath={setSelectedPath}
+                      />
+                    )}
+                  </TabsContent>
                 </Tabs>
               </CardContent>
             </Card>
           )}
 
+          {/* Hex View */}
+          {binaryFile && (
+            <Card className="shadow-sm">
+              <CardHeader className="pb-4">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <ScanLine className="w-5 h-5 text-purple-600" />
+                  Hex View
+                </CardTitle>
+                <CardDescription>
+                  {wireLayout
+                    ? "Select a field to highlight its bytes, or a byte to find the field it belongs to"
+                    : "Decode to color the bytes by the tag, length prefix and value they encode"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <HexViewer
+                  data={binaryFile.content}
+                  layout={wireLayout}
+                  selectedPath={selectedPath}
+                  onSelectPath={setSelectedPath}
+                  hoveredPath={hoveredPath}
+                  onHoverPath={setHoveredPath}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Instructions */}
           <Alert className="shadow-sm border-blue-200 bg-blue-50">
             <Info className="h-4 w-4 text-blue-600" />
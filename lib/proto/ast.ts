@@ -0,0 +1,128 @@
+// AST produced by parseProto. Node shapes follow the protobuf language spec closely
+// so the schema model can be derived without going back to the source text.
+
+export type OptionValue = string | number | boolean | OptionAggregate | OptionValue[]
+
+export interface OptionAggregate {
+  [key: string]: OptionValue
+}
+
+export interface OptionNode {
+  name: string
+  value: OptionValue
+}
+
+export interface ImportNode {
+  path: string
+  modifier?: "public" | "weak"
+  line: number
+}
+
+export type FieldLabel = "optional" | "repeated" | "required"
+
+export interface FieldNode {
+  kind: "field"
+  name: string
+  type: string
+  number: number
+  label?: FieldLabel
+  options: OptionNode[]
+  line: number
+  column: number
+}
+
+export interface MapFieldNode {
+  kind: "map"
+  name: string
+  keyType: string
+  valueType: string
+  number: number
+  options: OptionNode[]
+  line: number
+  column: number
+}
+
+export interface OneofNode {
+  name: string
+  fields: FieldNode[]
+  options: OptionNode[]
+  line: number
+}
+
+/** Inclusive field-number range; `end` is 536870911 when written as `max`. */
+export interface RangeNode {
+  start: number
+  end: number
+}
+
+export interface ReservedNode {
+  ranges: RangeNode[]
+  names: string[]
+}
+
+export interface ExtensionsNode {
+  ranges: RangeNode[]
+  options: OptionNode[]
+}
+
+export interface EnumValueNode {
+  name: string
+  number: number
+  options: OptionNode[]
+  line: number
+}
+
+export interface EnumNode {
+  name: string
+  values: EnumValueNode[]
+  options: OptionNode[]
+  reserved: ReservedNode[]
+  line: number
+}
+
+export interface ExtendNode {
+  extendee: string
+  fields: FieldNode[]
+  line: number
+}
+
+export interface MessageNode {
+  name: string
+  fields: (FieldNode | MapFieldNode)[]
+  oneofs: OneofNode[]
+  messages: MessageNode[]
+  enums: EnumNode[]
+  extends: ExtendNode[]
+  reserved: ReservedNode[]
+  extensions: ExtensionsNode[]
+  options: OptionNode[]
+  line: number
+}
+
+export interface RpcNode {
+  name: string
+  requestType: string
+  requestStream: boolean
+  responseType: string
+  responseStream: boolean
+  options: OptionNode[]
+  line: number
+}
+
+export interface ServiceNode {
+  name: string
+  rpcs: RpcNode[]
+  options: OptionNode[]
+  line: number
+}
+
+export interface ProtoFileNode {
+  syntax: string
+  package: string
+  imports: ImportNode[]
+  options: OptionNode[]
+  messages: MessageNode[]
+  enums: EnumNode[]
+  services: ServiceNode[]
+  extends: ExtendNode[]
+}
@@ -0,0 +1,543 @@
+import { describe, expect, it } from "vitest"
+import {
+  decodeProtobufData,
+  decodeVarint64,
+  expectedWireType,
+  format64,
+  zigZagDecode32,
+  zigZagDecode64,
+} from "./decoder"
+import { parseProtoFile, SCALAR_TYPES } from "./schema"
+import { buildWorkspace } from "./workspace"
+import {
+  isPackableType,
+  SCALAR_WIRE_TYPES,
+  WIRE_TYPE_FIXED32,
+  WIRE_TYPE_FIXED64,
+  WIRE_TYPE_LENGTH_DELIMITED,
+  WIRE_TYPE_VARINT,
+} from "./wire"
+
+const schema = parseProtoFile(`
+  syntax = "proto3";
+  package test;
+
+  enum Color { COLOR_UNSPECIFIED = 0; }
+  message Inner {}
+  // Named after properties every object inherits
+  message constructor {}
+  enum toString { TO_STRING_UNSPECIFIED = 0; }
+
+  message Sample {
+    double f_double = 1;
+    float f_float = 2;
+    int32 f_int32 = 3;
+    int64 f_int64 = 4;
+    uint32 f_uint32 = 5;
+    uint64 f_uint64 = 6;
+    sint32 f_sint32 = 7;
+    sint64 f_sint64 = 8;
+    fixed32 f_fixed32 = 9;
+    fixed64 f_fixed64 = 10;
+    sfixed32 f_sfixed32 = 11;
+    sfixed64 f_sfixed64 = 12;
+    bool f_bool = 13;
+    string f_string = 14;
+    bytes f_bytes = 15;
+    Color f_enum = 16;
+    Inner f_message = 17;
+    map<string, int32> f_map = 18;
+    constructor f_constructor = 19;
+    toString f_to_string = 20;
+    Missing f_missing = 21;
+  }
+
+  message Packed {
+    repeated int32 ints = 1;
+    repeated sint32 zigzag = 2;
+    repeated fixed32 fixed = 3;
+    repeated double doubles = 4;
+    repeated Color colors = 5;
+    repeated bool flags = 6;
+    repeated string names = 7;
+  }
+
+  message Choice {
+    oneof kind {
+      string text = 1;
+      int32 number = 2;
+    }
+  }
+
+  message Maps {
+    map<string, int32> counts = 1;
+    map<int64, string> by_id = 2;
+    map<string, Color> colors = 3;
+    map<string, Inner> inners = 4;
+  }
+
+  message Tree {
+    Tree child = 1;
+    repeated Tree children = 2;
+    int32 plain_value = 3;
+    map<string, Tree> by_name = 4;
+    optional int32 maybe = 5;
+  }
+
+  message Inherited {
+    int32 constructor = 1;
+    int32 __proto__ = 2;
+    int32 toString = 3;
+  }
+`)
+
+const sample = schema.messages.find((m) => m.fullName === "test.Sample")!
+const field = (name: string) => sample.fields.find((f) => f.name === name)!
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16)).buffer
+const decode = (hex: string, name: string, options = {}) =>
+  decodeProtobufData(fromHex(hex), schema.messages.find((m) => m.name === name)!, schema, options)
+
+describe("expectedWireType", () => {
+  it.each([
+    ["f_double", WIRE_TYPE_FIXED64],
+    ["f_float", WIRE_TYPE_FIXED32],
+    ["f_int32", WIRE_TYPE_VARINT],
+    ["f_int64", WIRE_TYPE_VARINT],
+    ["f_uint32", WIRE_TYPE_VARINT],
+    ["f_uint64", WIRE_TYPE_VARINT],
+    ["f_sint32", WIRE_TYPE_VARINT],
+    ["f_sint64", WIRE_TYPE_VARINT],
+    ["f_fixed32", WIRE_TYPE_FIXED32],
+    ["f_fixed64", WIRE_TYPE_FIXED64],
+    ["f_sfixed32", WIRE_TYPE_FIXED32],
+    ["f_sfixed64", WIRE_TYPE_FIXED64],
+    ["f_bool", WIRE_TYPE_VARINT],
+    ["f_string", WIRE_TYPE_LENGTH_DELIMITED],
+    ["f_bytes", WIRE_TYPE_LENGTH_DELIMITED],
+    ["f_enum", WIRE_TYPE_VARINT],
+    ["f_message", WIRE_TYPE_LENGTH_DELIMITED],
+    ["f_map", WIRE_TYPE_LENGTH_DELIMITED],
+    ["f_constructor", WIRE_TYPE_LENGTH_DELIMITED],
+    ["f_to_string", WIRE_TYPE_VARINT],
+    ["f_missing", undefined],
+  ])("%s is read as wire type %s", (name, wireType) => {
+    expect(expectedWireType(field(name), schema)).toBe(wireType)
+  })
+})
+
+describe("SCALAR_WIRE_TYPES", () => {
+  it("covers every scalar type and nothing inherited", () => {
+    expect([...SCALAR_WIRE_TYPES.keys()].sort()).toEqual([...SCALAR_TYPES].sort())
+    for (const name of ["constructor", "toString", "valueOf", "__proto__"]) {
+      expect(SCALAR_WIRE_TYPES.has(name)).toBe(false)
+      expect(isPackableType(name)).toBe(false)
+    }
+  })
+})
+
+describe("packed repeated fields", () => {
+  it.each([
+    ["0a0401029601", { ints: [1, 2, 150] }],
+    ["08010802", { ints: [1, 2] }],
+    ["08010a020203", { ints: [1, 2, 3] }],
+    ["0a00", {}],
+    ["1203010203", { zigzag: [-1, 1, -2] }],
+    ["1a0801000000ffffffff", { fixed: [1, 4294967295] }],
+    ["2210000000000000f83f000000000000f07f", { doubles: [1.5, "Infinity"] }],
+    ["2a020001", { colors: ["COLOR_UNSPECIFIED", "<unknown Color: 1>"] }],
+    ["32020100", { flags: [true, false] }],
+    ["3a0161", { names: ["a"] }],
+  ])("decodes %s", (hex, data) => {
+    const result = decode(hex, "Packed")
+    expect(result.errors).toEqual([])
+    expect(result.data).toEqual(data)
+  })
+
+  it("reports a packed record that runs past the end of the data", () => {
+    const result = decode("08070a0501", "Packed")
+    expect(result.data).toEqual({ ints: [7] })
+    expect(result.errors).toEqual([
+      { offset: 2, path: "ints", wireType: 2, reason: "Not enough data for packed int32 field" },
+    ])
+  })
+})
+
+describe("64-bit integers", () => {
+  it.each([
+    ["00", BigInt(0)],
+    ["9601", BigInt(150)],
+    ["8180808080808010", BigInt("9007199254740993")],
+    ["ffffffffffffffffff01", BigInt("18446744073709551615")],
+  ])("decodeVarint64 reads %s", (hex, value) => {
+    expect(decodeVarint64(new Uint8Array(fromHex(hex)), 0)).toEqual({ value, newOffset: hex.length / 2 })
+  })
+
+  it.each([
+    [BigInt(0), BigInt(0)],
+    [BigInt(1), BigInt(-1)],
+    [BigInt(2), BigInt(1)],
+    [BigInt("18446744073709551614"), BigInt("9223372036854775807")],
+    [BigInt("18446744073709551615"), BigInt("-9223372036854775808")],
+  ])("zigZagDecode64 maps %s to %s", (value, decoded) => {
+    expect(zigZagDecode64(value)).toBe(decoded)
+  })
+
+  it.each([
+    [BigInt(42), false, "42"],
+    [BigInt(42), true, 42],
+    [BigInt(-42), true, -42],
+    [BigInt("9007199254740992"), true, "9007199254740992"],
+  ])("format64 renders %s (asNumber %s) as %j", (value, asNumber, formatted) => {
+    expect(format64(value, asNumber)).toBe(formatted)
+  })
+
+  it.each([
+    ["20ffffffffffffffffff01", "f_int64", "-1"],
+    ["208180808080808010", "f_int64", "9007199254740993"],
+    ["30ffffffffffffffffff01", "f_uint64", "18446744073709551615"],
+    ["4001", "f_sint64", "-1"],
+    ["40feffffffffffffffff01", "f_sint64", "9223372036854775807"],
+    ["51ffffffffffffffff", "f_fixed64", "18446744073709551615"],
+    ["61feffffffffffffff", "f_sfixed64", "-2"],
+  ])("decodes %s exactly as %s", (hex, name, value) => {
+    expect(decode(hex, "Sample").data).toEqual({ [name]: value })
+  })
+
+  it.each([
+    ["202a", { f_int64: 42 }],
+    ["20ffffffffffffffffff01", { f_int64: -1 }],
+    ["208180808080808010", { f_int64: "9007199254740993" }],
+  ])("decodes %s as a number where it is safe to", (hex, data) => {
+    expect(decode(hex, "Sample", { int64AsNumber: true }).data).toEqual(data)
+  })
+})
+
+describe("scalar types", () => {
+  it.each([
+    [0, 0],
+    [1, -1],
+    [2, 1],
+    [4294967294, 2147483647],
+    [4294967295, -2147483648],
+  ])("zigZagDecode32 maps %d to %d", (value, decoded) => {
+    expect(zigZagDecode32(value)).toBe(decoded)
+  })
+
+  it.each([
+    ["09000000000000f83f", "f_double", 1.5],
+    ["09000000000000f07f", "f_double", "Infinity"],
+    ["15000020c0", "f_float", -2.5],
+    ["150000c07f", "f_float", "NaN"],
+    ["18feffffffffffffffff01", "f_int32", -2],
+    ["188580808010", "f_int32", 5],
+    ["28ffffffff0f", "f_uint32", 4294967295],
+    ["3803", "f_sint32", -2],
+    ["4dffffffff", "f_fixed32", 4294967295],
+    ["5dfeffffff", "f_sfixed32", -2],
+    ["6802", "f_bool", true],
+    ["7203616263", "f_string", "abc"],
+    ["7a020102", "f_bytes", [1, 2]],
+    ["800100", "f_enum", "COLOR_UNSPECIFIED"],
+    ["a00100", "f_to_string", "TO_STRING_UNSPECIFIED"],
+  ])("decodes %s as %s", (hex, name, value) => {
+    const result = decode(hex, "Sample")
+    expect(result.errors).toEqual([])
+    expect(result.data).toEqual({ [name]: value })
+  })
+
+  it("decodes fields named after inherited properties as own properties", () => {
+    const { data } = decode("080110021803", "Inherited")
+    expect(Object.getPrototypeOf(data)).toBeNull()
+    expect(Object.entries(data)).toEqual([
+      ["constructor", 1],
+      ["__proto__", 2],
+      ["toString", 3],
+    ])
+    expect(Object.entries(decode("", "Inherited", { emitDefaults: true }).data)).toEqual([
+      ["constructor", 0],
+      ["__proto__", 0],
+      ["toString", 0],
+    ])
+  })
+})
+
+describe("oneof fields", () => {
+  it.each([
+    ["0a0161", { text: "a" }, [{ path: "", oneof: "kind", field: "text" }], []],
+    ["1002", { number: 2 }, [{ path: "", oneof: "kind", field: "number" }], []],
+    [
+      "0a01611002",
+      { number: 2 },
+      [{ path: "", oneof: "kind", field: "number" }],
+      ["kind: multiple members set (text, number); keeping number"],
+    ],
+    ["", {}, [], []],
+  ])("decodes %s", (hex, data, oneofCases, warnings) => {
+    const result = decode(hex, "Choice", { emitDefaults: true })
+    expect(result.data).toEqual(data)
+    expect(result.oneofCases).toEqual(oneofCases)
+    expect(result.warnings).toEqual(warnings)
+  })
+})
+
+describe("map fields", () => {
+  it.each([
+    ["0a050a01611001", { counts: { a: 1 } }],
+    ["0a050a016110010a050a01621002", { counts: { a: 1, b: 2 } }],
+    ["0a030a0161", { counts: { a: 0 } }],
+    ["0a021005", { counts: { "": 5 } }],
+    ["1206089601120178", { by_id: { "150": "x" } }],
+    ["1a050a01611000", { colors: { a: "COLOR_UNSPECIFIED" } }],
+    ["22050a01611200", { inners: { a: {} } }],
+    ["22030a0161", { inners: { a: {} } }],
+  ])("decodes %s", (hex, data) => {
+    const result = decode(hex, "Maps")
+    expect(result.errors).toEqual([])
+    expect(result.data).toEqual(data)
+  })
+
+  it("keeps the last value of a repeated key and indexes entries by their wire position", () => {
+    const result = decode("0a050a016110010a050a01621002220212000a050a01611003", "Maps")
+    expect(result.data).toEqual({ counts: { a: 3, b: 2 }, inners: { "": {} } })
+    expect(result.mapEntries).toEqual([
+      { path: "counts", key: "a", index: 0 },
+      { path: "counts", key: "b", index: 1 },
+      { path: "inners", key: "", index: 0 },
+      { path: "counts", key: "a", index: 2 },
+    ])
+  })
+
+  it("emits empty maps only when defaults are requested", () => {
+    expect(decode("", "Maps").data).toEqual({})
+    const result = decode("", "Maps", { emitDefaults: true })
+    expect(result.data).toEqual({ counts: {}, by_id: {}, colors: {}, inners: {} })
+    expect(result.defaulted).toEqual(["counts", "by_id", "colors", "inners"])
+  })
+})
+
+describe("JSON output options", () => {
+  it.each([
+    ["18012005", {}, { f_int32: 1, f_int64: "5" }],
+    ["18012005", { jsonNames: true }, { fInt32: 1, fInt64: "5" }],
+    ["2005", { int64AsNumber: true }, { f_int64: 5 }],
+    ["20ffffffffffffffffff01", { int64AsNumber: true }, { f_int64: -1 }],
+    ["30ffffffffffffffffff01", { int64AsNumber: true }, { f_uint64: "18446744073709551615" }],
+    ["800100", {}, { f_enum: "COLOR_UNSPECIFIED" }],
+    ["800105", {}, { f_enum: "<unknown Color: 5>" }],
+    ["800105", { enumsAsNumbers: true }, { f_enum: 5 }],
+    ["7a02ff00", {}, { f_bytes: [255, 0] }],
+    ["7a02ff00", { bytesFormat: "array" }, { f_bytes: [255, 0] }],
+    ["7a02ff00", { bytesFormat: "base64" }, { f_bytes: "/wA=" }],
+    ["7a02ff00", { bytesFormat: "hex" }, { f_bytes: "ff00" }],
+  ])("decodes %s with %j", (hex, options, data) => {
+    expect(decode(hex, "Sample", options).data).toEqual(data)
+  })
+
+  it.each([
+    [{}, { f_int64: "0", f_enum: "COLOR_UNSPECIFIED", f_bytes: [] }],
+    [{ jsonNames: true }, { fInt64: "0", fEnum: "COLOR_UNSPECIFIED", fBytes: [] }],
+    [{ int64AsNumber: true, enumsAsNumbers: true, bytesFormat: "base64" }, { f_int64: 0, f_enum: 0, f_bytes: "" }],
+  ])("emits defaults in the format chosen by %j", (options, data) => {
+    const result = decode("", "Sample", { ...options, emitDefaults: true })
+    expect(result.data).toMatchObject(data)
+    expect(result.data).not.toHaveProperty("f_message")
+  })
+})
+
+describe("defaulted fields", () => {
+  it("lists nothing unless defaults are requested", () => {
+    expect(decode("0a00", "Tree").defaulted).toEqual([])
+  })
+
+  it("lists the path of every field shown with its default value", () => {
+    const result = decode("0a0012001202180122050a01611200", "Tree", { emitDefaults: true })
+    expect(result.data).toMatchObject({ children: [{ plain_value: 0 }, { plain_value: 1 }], plain_value: 0 })
+    expect(result.data).not.toHaveProperty("maybe")
+    expect(result.defaulted).toEqual([
+      "child.children",
+      "child.plain_value",
+      "child.by_name",
+      "children[0].children",
+      "children[0].plain_value",
+      "children[0].by_name",
+      "children[1].children",
+      "children[1].by_name",
+      "by_name[0].value.children",
+      "by_name[0].value.plain_value",
+      "by_name[0].value.by_name",
+      "plain_value",
+    ])
+  })
+
+  it("lists paths by declared name when JSON names are shown", () => {
+    const result = decode("", "Tree", { emitDefaults: true, jsonNames: true })
+    expect(result.data).toEqual({ children: [], plainValue: 0, byName: {} })
+    expect(result.defaulted).toEqual(["children", "plain_value", "by_name"])
+  })
+})
+
+describe("google.protobuf.Any", () => {
+  const { schema: anySchema } = buildWorkspace([
+    {
+      path: "any.proto",
+      size: 0,
+      content: `
+        syntax = "proto3";
+        package any;
+        import "google/protobuf/any.proto";
+        import "google/protobuf/duration.proto";
+
+        message Holder {
+          google.protobuf.Any item = 1;
+          repeated google.protobuf.Any items = 2;
+          Holder child = 3;
+        }
+        message Point { int32 x = 1; }
+      `,
+    },
+  ])
+  const holder = anySchema.messages.find((m) => m.fullName === "any.Holder")!
+
+  // Records are built as hex, with lengths that fit in a single byte
+  const record = (tag: string, hex: string) => tag + (hex.length / 2).toString(16).padStart(2, "0") + hex
+  const packAny = (typeName: string, valueHex: string) =>
+    record("0a", Buffer.from(`type.googleapis.com/${typeName}`).toString("hex")) + record("12", valueHex)
+  const decodeHolder = (hex: string, maxDepth?: number) =>
+    decodeProtobufData(fromHex(hex), holder, anySchema, { maxDepth })
+
+  it.each([
+    ["a message in the schema", "any.Point", "0805", { "@type": "type.googleapis.com/any.Point", x: 5 }],
+    [
+      "a well-known type",
+      "google.protobuf.Duration",
+      "0801",
+      { "@type": "type.googleapis.com/google.protobuf.Duration", value: "1s" },
+    ],
+  ])("decodes %s", (_, typeName, valueHex, item) => {
+    const result = decodeHolder(record("0a", packAny(typeName, valueHex)))
+    expect(result.errors).toEqual([])
+    expect(result.data).toEqual({ item })
+  })
+
+  it("decodes repeated Any fields", () => {
+    const hex = record("12", packAny("any.Point", "0805")) + record("12", packAny("any.Point", ""))
+    expect(decodeHolder(hex).data).toEqual({
+      items: [
+        { "@type": "type.googleapis.com/any.Point", x: 5 },
+        { "@type": "type.googleapis.com/any.Point" },
+      ],
+    })
+  })
+
+  it("keeps payloads of types missing from the schema as bytes", () => {
+    const result = decodeHolder(record("0a", packAny("x.Missing", "0102")))
+    expect(result.data).toEqual({ item: { "@type": "type.googleapis.com/x.Missing", value: [1, 2] } })
+    expect(result.unresolvedAnyTypes).toEqual(["x.Missing"])
+    expect(result.warnings).toEqual([
+      "item: Any payload of type x.Missing left undecoded; load the .proto that defines it",
+    ])
+  })
+
+  it("counts an Any and its payload as a single level of depth", () => {
+    const viaAny = decodeHolder(record("0a", packAny("any.Holder", "1a00")), 1)
+    const direct = decodeHolder(record("1a", "1a00"), 1)
+    expect(viaAny.undecoded.map((e) => [e.path, e.reason])).toEqual([["item.child", "any.Holder beyond max depth 1"]])
+    expect(direct.undecoded.map((e) => [e.path, e.reason])).toEqual([["child.child", "any.Holder beyond max depth 1"]])
+    expect(decodeHolder(record("0a", packAny("any.Point", "0805")), 1).data).toEqual({
+      item: { "@type": "type.googleapis.com/any.Point", x: 5 },
+    })
+  })
+})
+
+describe("decode errors", () => {
+  it.each([
+    ["18", {}, { offset: 0, path: "f_int32", wireType: 0, reason: "Unexpected end of data while reading varint" }],
+    ["18ffffffffffffffffffff01", {}, { offset: 0, path: "f_int32", wireType: 0, reason: "Varint too long" }],
+    ["ff", {}, { offset: 0, path: "", wireType: undefined, reason: "Unexpected end of data while reading varint" }],
+    ["090000", {}, { offset: 0, path: "f_double", wireType: 1, reason: "Not enough data for 64-bit field" }],
+    ["15000000", {}, { offset: 0, path: "f_float", wireType: 5, reason: "Not enough data for 32-bit field" }],
+    [
+      "180172056162",
+      { f_int32: 1 },
+      { offset: 2, path: "f_string", wireType: 2, reason: "Length 5 runs past the end of the data" },
+    ],
+    [
+      "8a01020a051801",
+      { f_message: {}, f_int32: 1 },
+      { offset: 3, path: "f_message.#1", wireType: 2, reason: "Unexpected end of data" },
+    ],
+  ])("decodes what it can of %s", (hex, data, error) => {
+    const result = decode(hex, "Sample")
+    expect(result.data).toEqual(data)
+    expect(result.errors).toEqual([error])
+  })
+})
+
+describe("strict mode", () => {
+  it.each([
+    ["1d01000000", { kind: "wire-type", path: "f_int32", offset: 0, expected: "varint (int32)", actual: "32-bit" }],
+    ["7801", { kind: "wire-type", path: "f_bytes", offset: 0, expected: "length-delimited (bytes)", actual: "varint" }],
+    [
+      "7202c328",
+      {
+        kind: "invalid-utf8",
+        path: "f_string",
+        offset: 2,
+        expected: "valid UTF-8",
+        actual: "2 bytes with invalid sequences",
+      },
+    ],
+    [
+      "188080808010",
+      { kind: "int32-range", path: "f_int32", offset: 1, expected: "int32 value", actual: "4294967296" },
+    ],
+    [
+      "288080808010",
+      { kind: "int32-range", path: "f_uint32", offset: 1, expected: "uint32 value", actual: "4294967296" },
+    ],
+    ["800105", { kind: "unknown-enum", path: "f_enum", offset: 2, expected: "a value of Color", actual: "5" }],
+    [
+      "18011802",
+      {
+        kind: "duplicate-field",
+        path: "f_int32",
+        offset: 2,
+        expected: "at most one occurrence",
+        actual: "repeated occurrence",
+      },
+    ],
+  ])("diagnoses %s", (hex, diagnostic) => {
+    expect(decode(hex, "Sample", { strict: true }).diagnostics).toEqual([diagnostic])
+    expect(decode(hex, "Sample").diagnostics).toEqual([])
+  })
+
+  it.each(["18feffffffffffffffff01", "28ffffffff0f", "7202c3a9", "800100"])("accepts %s", (hex) => {
+    expect(decode(hex, "Sample", { strict: true }).diagnostics).toEqual([])
+  })
+})
+
+describe("unknown fields", () => {
+  it.each([
+    ["f0019601", { number: 30, wireType: 0, value: 150, raw: "96 01" }],
+    [
+      "f101ffffffffffffffff",
+      { number: 30, wireType: 1, value: "18446744073709551615", raw: "ff ff ff ff ff ff ff ff" },
+    ],
+    ["f50102000000", { number: 30, wireType: 5, value: 2, raw: "02 00 00 00" }],
+    ["f20103616263", { number: 30, wireType: 2, value: "abc", raw: "03 61 62 63" }],
+    ["f201020801", { number: 30, wireType: 2, value: { 1: 1 }, raw: "02 08 01" }],
+    ["1d01000000", { number: 3, wireType: 5, value: 1, raw: "01 00 00 00" }],
+  ])("keeps %s", (hex, field) => {
+    const result = decode(hex, "Sample")
+    expect(result.errors).toEqual([])
+    expect(result.data).toEqual({ $unknown: [field] })
+    expect(result.unknownFields).toEqual([{ path: "", field }])
+  })
+
+  it("keeps unknown fields of nested messages where they were found", () => {
+    const result = decode("8a0103f00101", "Sample")
+    expect(result.data).toEqual({ f_message: { $unknown: [{ number: 30, wireType: 0, value: 1, raw: "01" }] } })
+    expect(result.unknownFields.map((u) => u.path)).toEqual(["f_message"])
+  })
+})
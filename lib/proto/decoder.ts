@@ -0,0 +1,859 @@
+import {
+  findEnum,
+  findMessage,
+  formatFieldType,
+  hasPresence,
+  type ProtoEnum,
+  type ProtoField,
+  type ProtoMessage,
+  type ProtoSchema,
+} from "./schema"
+import { interpretPayload } from "./raw"
+import { hasSpecialJson, wellKnownToJson } from "./well-known"
+import {
+  isPackableType,
+  SCALAR_WIRE_TYPES,
+  WIRE_TYPE_FIXED32,
+  WIRE_TYPE_FIXED64,
+  WIRE_TYPE_LENGTH_DELIMITED,
+  WIRE_TYPE_NAMES,
+  WIRE_TYPE_VARINT,
+} from "./wire"
+
+export interface DecodedData {
+  [key: string]: any
+}
+
+/**
+ * An empty object for decoded fields or map entries. It has no prototype, so a
+ * field or key named `__proto__` is stored like any other and names such as
+ * `constructor` are not found where nothing was set.
+ */
+export const createDecodedData = (): DecodedData => Object.create(null)
+
+/** How bytes fields appear in the output; proto3 JSON uses base64. */
+export type BytesFormat = "base64" | "hex" | "array"
+
+export interface DecodeOptions {
+  /** Nested messages deeper than this are left undecoded, guarding against hostile input. */
+  maxDepth?: number
+  /**
+   * Emit 64-bit integers as JSON numbers when they fit in a double without loss.
+   * By default they are strings, as the proto3 JSON mapping requires.
+   */
+  int64AsNumber?: boolean
+  /** Report records that decode but do not match the schema as diagnostics. */
+  strict?: boolean
+  /** Key fields by their JSON name (`json_name` or lowerCamelCase) rather than as declared. */
+  jsonNames?: boolean
+  /** Emit enum values as numbers rather than by name. */
+  enumsAsNumbers?: boolean
+  /** Defaults to arrays of octets. */
+  bytesFormat?: BytesFormat
+  /**
+   * Emit fields without presence when they are unset: default scalars, empty
+   * repeated fields and maps. Fields in a oneof, `optional` fields and message
+   * fields are only emitted when set.
+   */
+  emitDefaults?: boolean
+}
+
+export const DEFAULT_MAX_DEPTH = 64
+
+/** Records which member of a oneof ended up set in a decoded message. */
+export interface OneofCase {
+  /** Path of the message containing the oneof; empty for the root message. */
+  path: string
+  oneof: string
+  field: string
+}
+
+/**
+ * A record the decoder could not read. Decoding of the enclosing message stops
+ * there; fields read before it are kept in the result.
+ */
+export interface DecodeError {
+  /** Offset of the record's tag within the input buffer. */
+  offset: number
+  /** Path of the field being decoded, or of the enclosing message if its tag was unreadable. */
+  path: string
+  /** Wire type from the record's tag, when the tag itself could be read. */
+  wireType?: number
+  reason: string
+}
+
+/**
+ * Key under which a decoded message lists the records its schema does not
+ * define. `$` cannot appear in a proto field name, so it never collides.
+ */
+export const UNKNOWN_FIELDS_KEY = "$unknown"
+
+/** A record kept verbatim because the schema has no matching field. */
+export interface UnknownField {
+  number: number
+  wireType: number
+  /** Best-guess reading of the value, as raw mode would show it. */
+  value: any
+  /** Hex of the bytes following the tag, exactly as on the wire; encoders write these back unchanged. */
+  raw: string
+}
+
+export type DiagnosticKind = "wire-type" | "invalid-utf8" | "int32-range" | "unknown-enum" | "duplicate-field"
+
+/** A record that decoded but does not conform to the schema, reported in strict mode. */
+export interface DecodeDiagnostic {
+  kind: DiagnosticKind
+  /** Path of the offending field. */
+  path: string
+  /** Offset of the offending record or value within the input buffer. */
+  offset: number
+  expected: string
+  actual: string
+}
+
+export interface DecodeResult {
+  data: DecodedData
+  oneofCases: OneofCase[]
+  warnings: string[]
+  /** Non-empty when the input was truncated or corrupt and `data` is partial. */
+  errors: DecodeError[]
+  /** Schema violations; only collected with `strict` set. */
+  diagnostics: DecodeDiagnostic[]
+  /** Every unknown field kept in `data`, with the path of the message holding it. */
+  unknownFields: { path: string; field: UnknownField }[]
+  /** Message types named by Any payloads that are not in the loaded schema. */
+  unresolvedAnyTypes: string[]
+  /** Paths of fields absent from the input that `data` shows with their default value. */
+  defaulted: string[]
+  /**
+   * Wire occurrence of each map entry under its map field's path, in input order.
+   * A key set more than once is listed for each entry; the last one is the value in `data`.
+   */
+  mapEntries: MapEntryIndex[]
+  /** Submessages beyond `maxDepth`, which `data` shows as placeholder strings. */
+  undecoded: DecodeError[]
+}
+
+export interface MapEntryIndex {
+  path: string
+  key: string
+  index: number
+}
+
+interface DecodeContext {
+  schema: ProtoSchema
+  maxDepth: number
+  int64AsNumber: boolean
+  strict: boolean
+  jsonNames: boolean
+  enumsAsNumbers: boolean
+  bytesFormat: BytesFormat
+  emitDefaults: boolean
+  oneofCases: OneofCase[]
+  warnings: string[]
+  errors: DecodeError[]
+  diagnostics: DecodeDiagnostic[]
+  unknownFields: { path: string; field: UnknownField }[]
+  unresolvedAnyTypes: Set<string>
+  defaulted: string[]
+  mapEntries: MapEntryIndex[]
+  undecoded: DecodeError[]
+}
+
+const joinPath = (path: string, name: string) => (path ? `${path}.${name}` : name)
+
+const diagnose = (ctx: DecodeContext, diagnostic: DecodeDiagnostic) => {
+  if (ctx.strict) ctx.diagnostics.push(diagnostic)
+}
+
+const INT32_MIN = BigInt(-2147483648)
+const INT32_MAX = BigInt(2147483647)
+const UINT32_MAX = BigInt(4294967295)
+
+// Range a 32-bit varint type's wire value must fall in; int32 is sign-extended to 64 bits
+const varintInRange = (type: string, value: bigint) => {
+  switch (type) {
+    case "int32": {
+      const signed = BigInt.asIntN(64, value)
+      return signed >= INT32_MIN && signed <= INT32_MAX
+    }
+    case "uint32":
+    case "sint32":
+      return value <= UINT32_MAX
+  }
+  return true
+}
+
+const strictUtf8 = new TextDecoder("utf-8", { fatal: true })
+
+const isValidUtf8 = (bytes: Uint8Array) => {
+  try {
+    strictUtf8.decode(bytes)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const decodeVarint = (data: Uint8Array, offset: number): { value: number; newOffset: number } => {
+  let result = 0
+  let multiplier = 1
+  let currentOffset = offset
+
+  // Multiplication rather than bit shifts keeps values above 2^31 positive; tags
+  // and lengths never get near the 2^53 precision limit.
+  while (currentOffset < data.length) {
+    const byte = data[currentOffset]
+    result += (byte & 0x7f) * multiplier
+
+    if ((byte & 0x80) === 0) {
+      return { value: result, newOffset: currentOffset + 1 }
+    }
+
+    multiplier *= 128
+    currentOffset++
+
+    if (currentOffset - offset >= 10) {
+      throw new Error("Varint too long")
+    }
+  }
+
+  throw new Error("Unexpected end of data while reading varint")
+}
+
+/** Reads a varint of up to 64 bits exactly, as an unsigned BigInt. */
+export const decodeVarint64 = (data: Uint8Array, offset: number): { value: bigint; newOffset: number } => {
+  let result = BigInt(0)
+  let shift = BigInt(0)
+  let currentOffset = offset
+
+  while (currentOffset < data.length) {
+    const byte = data[currentOffset]
+    result |= BigInt(byte & 0x7f) << shift
+
+    if ((byte & 0x80) === 0) {
+      return { value: BigInt.asUintN(64, result), newOffset: currentOffset + 1 }
+    }
+
+    shift += BigInt(7)
+    currentOffset++
+
+    if (currentOffset - offset >= 10) {
+      throw new Error("Varint too long")
+    }
+  }
+
+  throw new Error("Unexpected end of data while reading varint")
+}
+
+export const zigZagDecode32 = (value: number): number => (value >>> 1) ^ -(value & 1)
+
+export const zigZagDecode64 = (value: bigint): bigint => (value >> BigInt(1)) ^ -(value & BigInt(1))
+
+/**
+ * Formats a 64-bit integer for JSON output. proto3 JSON always uses strings; with
+ * `asNumber`, values within Number.MAX_SAFE_INTEGER are emitted as plain numbers.
+ */
+export const format64 = (value: bigint, asNumber = false): string | number => {
+  const asDouble = Number(value)
+  return asNumber && Number.isSafeInteger(asDouble) ? asDouble : value.toString()
+}
+
+// proto3 JSON spells out the non-finite doubles, since JSON has no literal for them.
+const formatDouble = (value: number): number | string => {
+  if (Number.isNaN(value)) return "NaN"
+  if (value === Infinity) return "Infinity"
+  if (value === -Infinity) return "-Infinity"
+  return value
+}
+
+export const formatBytes = (bytes: Uint8Array, format: BytesFormat): string | number[] => {
+  switch (format) {
+    case "base64": {
+      let binary = ""
+      bytes.forEach((b) => (binary += String.fromCharCode(b)))
+      return btoa(binary)
+    }
+    case "hex":
+      return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+    default:
+      return Array.from(bytes)
+  }
+}
+
+export const decodeString = (data: Uint8Array, offset: number, length: number): string => {
+  const bytes = data.slice(offset, offset + length)
+  return new TextDecoder().decode(bytes)
+}
+
+export const skipField = (data: Uint8Array, offset: number, wireType: number): number => {
+  switch (wireType) {
+    case 0: // Varint
+      const { newOffset } = decodeVarint(data, offset)
+      return newOffset
+    case 1: // 64-bit
+      return offset + 8
+    case 2: // Length-delimited
+      const { value: length, newOffset: lengthOffset } = decodeVarint(data, offset)
+      return lengthOffset + length
+    case 5: // 32-bit
+      return offset + 4
+    default:
+      throw new Error(`Cannot skip unknown wire type: ${wireType}`)
+  }
+}
+
+// skipField trusts lengths; a record that claims more bytes than remain is truncated
+const skipRecord = (data: Uint8Array, offset: number, wireType: number): number => {
+  const next = skipField(data, offset, wireType)
+  if (next > data.length) {
+    throw new Error("Unexpected end of data")
+  }
+  return next
+}
+
+const readUnknownValue = (bytes: Uint8Array, wireType: number, ctx: DecodeContext): any => {
+  switch (wireType) {
+    case WIRE_TYPE_VARINT:
+      return format64(decodeVarint64(bytes, 0).value, true)
+    case WIRE_TYPE_FIXED64:
+      return format64(new DataView(bytes.buffer, bytes.byteOffset, 8).getBigUint64(0, true), true)
+    case WIRE_TYPE_FIXED32:
+      return new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true)
+    default: {
+      const { newOffset } = decodeVarint(bytes, 0)
+      return interpretPayload(bytes.subarray(newOffset), ctx.maxDepth)
+    }
+  }
+}
+
+// Skips a record the schema does not define, keeping it under UNKNOWN_FIELDS_KEY
+const keepUnknown = (
+  data: Uint8Array,
+  offset: number,
+  fieldNumber: number,
+  wireType: number,
+  result: DecodedData,
+  ctx: DecodeContext,
+  path: string,
+): number => {
+  const end = skipRecord(data, offset, wireType)
+  const bytes = data.subarray(offset, end)
+  const field: UnknownField = {
+    number: fieldNumber,
+    wireType,
+    value: readUnknownValue(bytes, wireType, ctx),
+    raw: Array.from(bytes)
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join(" "),
+  }
+  if (!result[UNKNOWN_FIELDS_KEY]) result[UNKNOWN_FIELDS_KEY] = []
+  result[UNKNOWN_FIELDS_KEY].push(field)
+  ctx.unknownFields.push({ path, field })
+  return end
+}
+
+/**
+ * Renders an enum number by its symbolic name. Numbers the enum does not define
+ * are kept but marked, since proto3 allows them on the wire.
+ */
+export const formatEnumValue = (enumType: ProtoEnum, value: number): string => {
+  const match = enumType.values.find((v) => v.number === value)
+  return match ? match.name : `<unknown ${enumType.name}: ${value}>`
+}
+
+/**
+ * Wire type a field's records should carry, or undefined when the field's type
+ * could not be resolved. Packed repeated scalars may additionally arrive as
+ * length-delimited records.
+ */
+export const expectedWireType = (field: ProtoField, schema: ProtoSchema): number | undefined => {
+  const scalarWireType = SCALAR_WIRE_TYPES.get(field.type)
+  if (scalarWireType !== undefined) return scalarWireType
+  if (!field.resolvedType) return undefined
+  if (findEnum(schema, field.resolvedType)) return WIRE_TYPE_VARINT
+  if (findMessage(schema, field.resolvedType)) return WIRE_TYPE_LENGTH_DELIMITED
+  return undefined
+}
+
+/** Value proto3 assigns to a singular field that is absent from the wire. */
+const defaultFieldValue = (field: ProtoField, ctx: DecodeContext): any => {
+  switch (field.type) {
+    case "bool":
+      return false
+    case "string":
+      return ""
+    case "bytes":
+      return formatBytes(new Uint8Array(0), ctx.bytesFormat)
+    case "int64":
+    case "uint64":
+    case "sint64":
+    case "fixed64":
+    case "sfixed64":
+      return format64(BigInt(0), ctx.int64AsNumber)
+  }
+  if (SCALAR_WIRE_TYPES.has(field.type)) return 0
+
+  const enumType = field.resolvedType ? findEnum(ctx.schema, field.resolvedType) : undefined
+  if (enumType) return ctx.enumsAsNumbers ? 0 : formatEnumValue(enumType, 0)
+  return createDecodedData()
+}
+
+
+const isPlainObject = (value: unknown): value is DecodedData =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+// A singular message field that appears more than once is merged, per the spec:
+// repeated fields concatenate, nested messages merge, scalars are replaced.
+const mergeDecoded = (target: DecodedData, source: DecodedData): DecodedData => {
+  const merged = Object.assign(createDecodedData(), target)
+  Object.entries(source).forEach(([key, value]) => {
+    const existing = merged[key]
+    if (Array.isArray(existing) && Array.isArray(value)) {
+      merged[key] = [...existing, ...value]
+    } else if (isPlainObject(existing) && isPlainObject(value)) {
+      merged[key] = mergeDecoded(existing, value)
+    } else {
+      merged[key] = value
+    }
+  })
+  return merged
+}
+
+// Reads a single varint, 64-bit or 32-bit value, either from its own record or
+// as one element of a packed repeated field.
+// `path` and `base` locate the value for strict-mode diagnostics.
+const decodeScalar = (
+  data: Uint8Array,
+  offset: number,
+  wireType: number,
+  field: ProtoField,
+  ctx: DecodeContext,
+  path: string,
+  base: number,
+  enumType?: ProtoEnum,
+): { value: any; newOffset: number } => {
+  switch (wireType) {
+    case 0: {
+      // Varint
+      const { value: varintValue, newOffset } = decodeVarint64(data, offset)
+      if (!varintInRange(field.type, varintValue)) {
+        diagnose(ctx, {
+          kind: "int32-range",
+          path,
+          offset: base + offset,
+          expected: `${field.type} value`,
+          actual: BigInt.asIntN(64, varintValue).toString(),
+        })
+      }
+
+      switch (field.type) {
+        case "bool":
+          return { value: varintValue !== BigInt(0), newOffset }
+        case "int64":
+          return { value: format64(BigInt.asIntN(64, varintValue), ctx.int64AsNumber), newOffset }
+        case "uint64":
+          return { value: format64(varintValue, ctx.int64AsNumber), newOffset }
+        case "sint64":
+          return { value: format64(zigZagDecode64(varintValue), ctx.int64AsNumber), newOffset }
+      }
+      // 32-bit types keep only the low 32 bits; negative int32 values are sign-extended to 10 bytes
+      const low32 = Number(BigInt.asUintN(32, varintValue))
+      switch (field.type) {
+        case "int32":
+          return { value: low32 | 0, newOffset }
+        case "uint32":
+          return { value: low32, newOffset }
+        case "sint32":
+          return { value: zigZagDecode32(low32), newOffset }
+      }
+      if (enumType) {
+        if (!enumType.values.some((v) => v.number === (low32 | 0))) {
+          diagnose(ctx, {
+            kind: "unknown-enum",
+            path,
+            offset: base + offset,
+            expected: `a value of ${enumType.name}`,
+            actual: String(low32 | 0),
+          })
+        }
+        return { value: ctx.enumsAsNumbers ? low32 | 0 : formatEnumValue(enumType, low32 | 0), newOffset }
+      }
+      return { value: format64(varintValue, true), newOffset }
+    }
+
+    case 1: // 64-bit
+      // Read 8 bytes for double/fixed64/sfixed64
+      if (offset + 8 <= data.length) {
+        const view = new DataView(data.buffer, data.byteOffset + offset, 8)
+        switch (field.type) {
+          case "double":
+            return { value: formatDouble(view.getFloat64(0, true)), newOffset: offset + 8 } // little-endian
+          case "fixed64":
+            return { value: format64(view.getBigUint64(0, true), ctx.int64AsNumber), newOffset: offset + 8 }
+          case "sfixed64":
+            return { value: format64(view.getBigInt64(0, true), ctx.int64AsNumber), newOffset: offset + 8 }
+        }
+        const value = `<64-bit: ${Array.from(data.slice(offset, offset + 8))
+          .map((b) => b.toString(16).padStart(2, "0"))
+          .join(" ")}>`
+        return { value, newOffset: offset + 8 }
+      }
+      throw new Error("Not enough data for 64-bit field")
+
+    case 5: // 32-bit
+      // Read 4 bytes for float/fixed32/sfixed32
+      if (offset + 4 <= data.length) {
+        const view = new DataView(data.buffer, data.byteOffset + offset, 4)
+        switch (field.type) {
+          case "float":
+            return { value: formatDouble(view.getFloat32(0, true)), newOffset: offset + 4 } // little-endian
+          case "fixed32":
+            return { value: view.getUint32(0, true), newOffset: offset + 4 }
+          case "sfixed32":
+            return { value: view.getInt32(0, true), newOffset: offset + 4 }
+        }
+        const value = `<32-bit: ${Array.from(data.slice(offset, offset + 4))
+          .map((b) => b.toString(16).padStart(2, "0"))
+          .join(" ")}>`
+        return { value, newOffset: offset + 4 }
+      }
+      throw new Error("Not enough data for 32-bit field")
+
+    default:
+      throw new Error(`Unknown wire type: ${wireType}`)
+  }
+}
+
+/**
+ * Decodes a google.protobuf.Any by looking up the message named in its type URL
+ * and rendering it the way proto3 JSON does: the payload's fields alongside an
+ * `@type` key, or under `value` for well-known types with a special JSON form.
+ * Payloads of types missing from the schema are kept as raw bytes. The payload
+ * stands in for the Any, so it is decoded at the Any's own `depth`.
+ */
+function decodeAny(data: Uint8Array, base: number, ctx: DecodeContext, depth: number, path: string): DecodedData {
+  let typeUrl = ""
+  let payload: Uint8Array = new Uint8Array(0)
+  let payloadOffset = 0
+  let offset = 0
+
+  while (offset < data.length) {
+    const { value: tag, newOffset } = decodeVarint(data, offset)
+    offset = newOffset
+    if (tag === 10 || tag === 18) {
+      // type_url (1) or value (2), both length-delimited
+      const { value: length, newOffset: lengthOffset } = decodeVarint(data, offset)
+      if (lengthOffset + length > data.length) {
+        throw new Error("Not enough data for google.protobuf.Any")
+      }
+      if (tag === 10) {
+        typeUrl = decodeString(data, lengthOffset, length)
+      } else {
+        payload = data.subarray(lengthOffset, lengthOffset + length)
+        payloadOffset = lengthOffset
+      }
+      offset = lengthOffset + length
+    } else {
+      offset = skipField(data, offset, tag & 0x07)
+    }
+  }
+
+  if (!typeUrl) return {}
+
+  // Only the part after the last slash names the type
+  const typeName = typeUrl.slice(typeUrl.lastIndexOf("/") + 1)
+  const target = findMessage(ctx.schema, typeName)
+  if (!target) {
+    ctx.unresolvedAnyTypes.add(typeName)
+    ctx.warnings.push(`${path}: Any payload of type ${typeName} left undecoded; load the .proto that defines it`)
+    return { "@type": typeUrl, value: formatBytes(payload, ctx.bytesFormat) }
+  }
+
+  const decoded = decodeMessage(payload, base + payloadOffset, target, ctx, depth, path)
+  const json = wellKnownToJson(target.fullName, decoded, ctx)
+  return json === decoded ? { "@type": typeUrl, ...decoded } : { "@type": typeUrl, value: json }
+}
+
+export function decodeProtobufData(
+  binaryData: ArrayBuffer,
+  message: ProtoMessage,
+  schema: ProtoSchema,
+  options: DecodeOptions = {},
+): DecodeResult {
+  const ctx: DecodeContext = {
+    schema,
+    maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    int64AsNumber: options.int64AsNumber ?? false,
+    strict: options.strict ?? false,
+    jsonNames: options.jsonNames ?? false,
+    enumsAsNumbers: options.enumsAsNumbers ?? false,
+    bytesFormat: options.bytesFormat ?? "array",
+    emitDefaults: options.emitDefaults ?? false,
+    oneofCases: [],
+    warnings: [],
+    errors: [],
+    diagnostics: [],
+    unknownFields: [],
+    unresolvedAnyTypes: new Set(),
+    defaulted: [],
+    mapEntries: [],
+    undecoded: [],
+  }
+  const data = decodeMessage(new Uint8Array(binaryData), 0, message, ctx, 0, "")
+  return {
+    data,
+    oneofCases: ctx.oneofCases,
+    warnings: ctx.warnings,
+    errors: ctx.errors,
+    diagnostics: ctx.diagnostics,
+    unknownFields: ctx.unknownFields,
+    unresolvedAnyTypes: Array.from(ctx.unresolvedAnyTypes),
+    defaulted: ctx.defaulted,
+    mapEntries: ctx.mapEntries,
+    undecoded: ctx.undecoded,
+  }
+}
+
+// `base` is the offset of `data` within the input buffer, so errors can report
+// absolute positions
+function decodeMessage(
+  data: Uint8Array,
+  base: number,
+  message: ProtoMessage,
+  ctx: DecodeContext,
+  depth: number,
+  path: string,
+): DecodedData {
+  const { schema, maxDepth } = ctx
+  const result = createDecodedData()
+  // Member currently set for each oneof in this message
+  const oneofMembers = new Map<string, string>()
+  // Singular fields already read, to flag duplicates in strict mode
+  const seenFields = new Set<number>()
+  // Entries read so far of each map field; the index of an entry is its position
+  // on the wire, which duplicate keys and key ordering would lose in `result`
+  const mapOccurrences = new Map<number, number>()
+  let offset = 0
+
+  // Initialize repeated fields as arrays and map fields as objects
+  message.fields.forEach((field) => {
+    if (field.map) {
+      result[field.name] = createDecodedData()
+    } else if (field.repeated) {
+      result[field.name] = []
+    }
+  })
+
+  while (offset < data.length) {
+    const recordOffset = offset
+    let recordPath = path
+    let recordWireType: number | undefined
+
+    try {
+      // Read field tag (field number + wire type)
+      const { value: tag, newOffset: tagOffset } = decodeVarint(data, offset)
+      offset = tagOffset
+
+      const fieldNumber = tag >>> 3
+      const wireType = tag & 0x07
+      recordWireType = wireType
+      recordPath = joinPath(path, `#${fieldNumber}`)
+
+      // Find field definition
+      const field = message.fields.find((f) => f.number === fieldNumber)
+      if (!field) {
+        offset = keepUnknown(data, offset, fieldNumber, wireType, result, ctx, path)
+        continue
+      }
+      recordPath = joinPath(path, field.name)
+
+      const enumType = field.resolvedType ? findEnum(schema, field.resolvedType) : undefined
+      const messageType = field.resolvedType ? findMessage(schema, field.resolvedType) : undefined
+      const expected = expectedWireType(field, schema)
+      const isPacked =
+        wireType === WIRE_TYPE_LENGTH_DELIMITED && field.repeated && (!!enumType || isPackableType(field.type))
+
+      // A record whose wire type contradicts the declared type is treated as an
+      // unknown field, as the reference implementations do.
+      if (expected !== undefined && wireType !== expected && !isPacked) {
+        diagnose(ctx, {
+          kind: "wire-type",
+          path: recordPath,
+          offset: base + recordOffset,
+          expected: `${WIRE_TYPE_NAMES[expected]} (${formatFieldType(field)})`,
+          actual: WIRE_TYPE_NAMES[wireType] ?? `wire type ${wireType}`,
+        })
+        offset = keepUnknown(data, offset, fieldNumber, wireType, result, ctx, path)
+        continue
+      }
+
+      if (!field.repeated && seenFields.has(field.number)) {
+        diagnose(ctx, {
+          kind: "duplicate-field",
+          path: recordPath,
+          offset: base + recordOffset,
+          expected: "at most one occurrence",
+          actual: "repeated occurrence",
+        })
+      }
+      seenFields.add(field.number)
+
+      // Repeated scalars may arrive packed into a single length-delimited record.
+      // Parsers must accept both forms for the same field.
+      if (isPacked) {
+        const { value: length, newOffset: lengthOffset } = decodeVarint(data, offset)
+        const end = lengthOffset + length
+        if (end > data.length) {
+          throw new Error(`Not enough data for packed ${field.type} field`)
+        }
+
+        const elementWireType = enumType ? WIRE_TYPE_VARINT : SCALAR_WIRE_TYPES.get(field.type)!
+        offset = lengthOffset
+        while (offset < end) {
+          const element = decodeScalar(
+            data.subarray(0, end),
+            offset,
+            elementWireType,
+            field,
+            ctx,
+            recordPath,
+            base,
+            enumType,
+          )
+          result[field.name].push(element.value)
+          offset = element.newOffset
+        }
+        continue
+      }
+
+      let value: any
+
+      if (wireType === WIRE_TYPE_LENGTH_DELIMITED) {
+        const { value: length, newOffset: lengthOffset } = decodeVarint(data, offset)
+        offset = lengthOffset
+        if (offset + length > data.length) {
+          throw new Error(`Length ${length} runs past the end of the data`)
+        }
+
+        if (field.type === "string") {
+          if (ctx.strict && !isValidUtf8(data.subarray(offset, offset + length))) {
+            diagnose(ctx, {
+              kind: "invalid-utf8",
+              path: recordPath,
+              offset: base + offset,
+              expected: "valid UTF-8",
+              actual: `${length} bytes with invalid sequences`,
+            })
+          }
+          value = decodeString(data, offset, length)
+        } else if (field.type === "bytes") {
+          value = formatBytes(data.subarray(offset, offset + length), ctx.bytesFormat)
+        } else if (messageType) {
+          const index = field.map ? (mapOccurrences.get(field.number) ?? 0) : result[field.name]?.length
+          const childPath = field.repeated ? `${joinPath(path, field.name)}[${index}]` : joinPath(path, field.name)
+          if (depth + 1 > maxDepth) {
+            value = `<${field.type} data: ${length} bytes, max depth ${maxDepth} exceeded>`
+            ctx.undecoded.push({
+              offset: base + recordOffset,
+              path: childPath,
+              wireType,
+              reason: `${messageType.fullName} beyond max depth ${maxDepth}`,
+            })
+          } else {
+            const messageData = data.subarray(offset, offset + length)
+            if (messageType.fullName === "google.protobuf.Any") {
+              value = decodeAny(messageData, base + offset, ctx, depth + 1, childPath)
+            } else {
+              value = decodeMessage(messageData, base + offset, messageType, ctx, depth + 1, childPath)
+              if (!field.repeated && isPlainObject(result[field.name])) {
+                value = mergeDecoded(result[field.name], value)
+              }
+              value = wellKnownToJson(messageType.fullName, value, ctx)
+            }
+          }
+        } else {
+          value = `<${field.type} data: ${length} bytes>`
+        }
+        offset += length
+      } else {
+        const scalar = decodeScalar(data, offset, wireType, field, ctx, recordPath, base, enumType)
+        value = scalar.value
+        offset = scalar.newOffset
+      }
+
+      // Setting a oneof member clears whichever member was set before it
+      if (field.oneof) {
+        const previous = oneofMembers.get(field.oneof)
+        if (previous && previous !== field.name) {
+          delete result[previous]
+          ctx.warnings.push(
+            `${joinPath(path, field.oneof)}: multiple members set (${previous}, ${field.name}); keeping ${field.name}`,
+          )
+        }
+        oneofMembers.set(field.oneof, field.name)
+      }
+
+      // Store the value
+      if (field.map && messageType) {
+        const index = mapOccurrences.get(field.number) ?? 0
+        mapOccurrences.set(field.number, index + 1)
+        if (isPlainObject(value)) {
+          const key = String(Object.hasOwn(value, "key") ? value.key : defaultFieldValue(messageType.fields[0], ctx))
+          result[field.name][key] = Object.hasOwn(value, "value")
+            ? value.value
+            : defaultFieldValue(messageType.fields[1], ctx)
+          ctx.mapEntries.push({ path: joinPath(path, field.name), key, index })
+        } else {
+          ctx.warnings.push(`${joinPath(path, field.name)}: map entry left undecoded (${value})`)
+        }
+      } else if (field.repeated) {
+        result[field.name].push(value)
+      } else {
+        result[field.name] = value
+      }
+    } catch (err) {
+      ctx.errors.push({
+        offset: base + recordOffset,
+        path: recordPath,
+        wireType: recordWireType,
+        reason: err instanceof Error ? err.message : String(err),
+      })
+      break
+    }
+  }
+
+  // Value's `kind` oneof is implied by the JSON it renders as
+  if (message.fullName !== "google.protobuf.Value") {
+    oneofMembers.forEach((field, oneof) => ctx.oneofCases.push({ path, oneof, field }))
+  }
+
+  // The special JSON forms of the well-known types are built from all their
+  // fields, so those always get defaults and keep their declared names
+  const specialJson = hasSpecialJson(message.fullName)
+  message.fields.forEach((field) => {
+    const value = result[field.name]
+    if (field.repeated) {
+      if (Array.isArray(value) ? value.length > 0 : Object.keys(value).length > 0) return
+      if (ctx.emitDefaults || specialJson) {
+        ctx.defaulted.push(joinPath(path, field.name))
+      } else {
+        delete result[field.name]
+      }
+    } else if (
+      !Object.hasOwn(result, field.name) &&
+      (ctx.emitDefaults || specialJson) &&
+      !hasPresence(field, ctx.schema)
+    ) {
+      result[field.name] = defaultFieldValue(field, ctx)
+      ctx.defaulted.push(joinPath(path, field.name))
+    }
+  })
+  if (!ctx.jsonNames || specialJson) return result
+
+  const renamed = createDecodedData()
+  Object.entries(result).forEach(([key, value]) => {
+    renamed[message.fields.find((f) => f.name === key)?.jsonName ?? key] = value
+  })
+  return renamed
+}
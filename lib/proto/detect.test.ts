@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { detectMessageType } from "./detect"
+import { parseProtoFile } from "./schema"
+
+const schema = parseProtoFile(`
+  syntax = "proto3";
+  package detect;
+
+  message User { string name = 1; int32 age = 2; }
+  message Point { int32 x = 1; int32 y = 2; }
+  message Point3 { int32 x = 1; int32 y = 2; int32 z = 3; }
+  message Wrapper { User user = 1; }
+  message Labels { map<string, string> labels = 1; }
+`)
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16)).buffer
+const detect = (hex: string) => detectMessageType(fromHex(hex), schema)
+
+describe("detectMessageType", () => {
+  it.each([
+    ["0a036162631005", "detect.User"],
+    ["08011002", "detect.Point"],
+    ["080110021803", "detect.Point3"],
+    ["0a050a01611001", "detect.Wrapper"],
+    ["0a080a01611203627a7a", "detect.Labels"],
+  ])("ranks %s as %s first", (hex, message) => {
+    expect(detect(hex)[0]).toMatchObject({ message, score: 100, consumed: true })
+  })
+
+  it("never offers map entry messages", () => {
+    expect(detect("0801").map((c) => c.message)).not.toContain("detect.Labels.LabelsEntry")
+  })
+
+  it.each([
+    ["0a0410011805", "detect.Wrapper", { score: 67, unknownFields: 1, wireTypeMismatches: 0 }],
+    ["0a036162631005", "detect.Point", { score: 50, unknownFields: 0, wireTypeMismatches: 1 }],
+    ["0a02c328", "detect.User", { score: 0, invalidUtf8: 1 }],
+    ["08011002", "detect.User", { score: 50, wireTypeMismatches: 1, presentFields: 1 }],
+    ["080110", "detect.Point", { score: 50, consumed: false, presentFields: 1 }],
+  ])("scores %s as %s", (hex, message, expected) => {
+    expect(detect(hex).find((c) => c.message === message)).toMatchObject(expected)
+  })
+})
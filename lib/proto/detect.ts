@@ -0,0 +1,93 @@
+import { decodeProtobufData, UNKNOWN_FIELDS_KEY, type DecodeOptions } from "./decoder"
+import { mapWireLayout, type WireRecord } from "./layout"
+import type { ProtoSchema } from "./schema"
+
+export interface TypeCandidate {
+  /** Fully-qualified message name. */
+  message: string
+  /** Fit from 0 to 100; 100 means every record matched the schema. */
+  score: number
+  unknownFields: number
+  wireTypeMismatches: number
+  invalidUtf8: number
+  /** False when decoding stopped before the end of the input. */
+  consumed: boolean
+  /** Top-level fields of the message that carried a value. */
+  presentFields: number
+}
+
+// Records the decoder reads, nested ones included, as issues are counted at every
+// depth. Packed elements have no tag of their own, and the payloads of unknown
+// fields are not decoded, so neither is counted.
+const countRecords = (records: WireRecord[]): number =>
+  records.reduce((count, r) => count + (r.tagLength > 0 ? 1 : 0) + (r.field ? countRecords(r.children) : 0), 0)
+
+// Repeated and map fields are initialised empty, so only non-empty ones count
+const isPresent = (value: unknown) => {
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === "object" && value !== null) return Object.keys(value).length > 0
+  return true
+}
+
+/**
+ * Trial-decodes the binary as every message in the schema and ranks the results
+ * by how well the data fits: no unknown fields, matching wire types, valid UTF-8
+ * in string fields, and all bytes consumed.
+ */
+export function detectMessageType(
+  binaryData: ArrayBuffer,
+  schema: ProtoSchema,
+  options: Omit<DecodeOptions, "strict"> = {},
+): TypeCandidate[] {
+  const candidates = schema.messages
+    .filter((message) => !message.mapEntry)
+    .map((message): TypeCandidate => {
+      try {
+        const result = decodeProtobufData(binaryData, message, schema, { ...options, strict: true })
+        const wireTypeMismatches = result.diagnostics.filter((d) => d.kind === "wire-type").length
+        const invalidUtf8 = result.diagnostics.filter((d) => d.kind === "invalid-utf8").length
+        // Mismatched records are kept as unknown fields too; count them once
+        const unknownFields = result.unknownFields.length - wireTypeMismatches
+        const consumed = result.errors.length === 0
+        const presentFields = Object.entries(result.data).filter(
+          ([key, value]) => key !== UNKNOWN_FIELDS_KEY && isPresent(value),
+        ).length
+
+        const layout = mapWireLayout(binaryData, { message, schema, maxDepth: options.maxDepth })
+        const records = Math.max(countRecords(layout.records), 1)
+        const issues = unknownFields + wireTypeMismatches + invalidUtf8
+        let score = Math.max(0, 1 - issues / records) * 100
+        if (!consumed) score /= 2
+
+        return {
+          message: message.fullName,
+          score: Math.round(score),
+          unknownFields,
+          wireTypeMismatches,
+          invalidUtf8,
+          consumed,
+          presentFields,
+        }
+      } catch {
+        return {
+          message: message.fullName,
+          score: 0,
+          unknownFields: 0,
+          wireTypeMismatches: 0,
+          invalidUtf8: 0,
+          consumed: false,
+          presentFields: 0,
+        }
+      }
+    })
+
+  // Among equally good fits, prefer the message that explains more of the data,
+  // then the one with fewer fields left unexplained
+  const declared = new Map(schema.messages.map((m) => [m.fullName, m.fields.length]))
+  return candidates.sort(
+    (a, b) =>
+      b.score - a.score ||
+      b.presentFields - a.presentFields ||
+      declared.get(a.message)! - declared.get(b.message)!,
+  )
+}
@@ -0,0 +1,267 @@
+import { describe, expect, it } from "vitest"
+import { decodeProtobufData, type DecodedData } from "./decoder"
+import { encodeProtobufData, type EncodeOptions } from "./encoder"
+import { parseProtoFile } from "./schema"
+import { buildWorkspace } from "./workspace"
+
+const schema = parseProtoFile(`
+  syntax = "proto3";
+  package test;
+
+  enum Color { COLOR_UNSPECIFIED = 0; GREEN = 1; }
+  message Inner { int32 value = 1; }
+
+  message Sample {
+    int32 f_int32 = 1;
+    Inner f_message = 2;
+  }
+
+  message Scalars {
+    double f_double = 1;
+    float f_float = 2;
+    int32 f_int32 = 3;
+    int64 f_int64 = 4;
+    uint32 f_uint32 = 5;
+    uint64 f_uint64 = 6;
+    sint32 f_sint32 = 7;
+    sint64 f_sint64 = 8;
+    fixed32 f_fixed32 = 9;
+    fixed64 f_fixed64 = 10;
+    sfixed32 f_sfixed32 = 11;
+    sfixed64 f_sfixed64 = 12;
+    bool f_bool = 13;
+    string f_string = 14;
+    bytes f_bytes = 15;
+    Color f_enum = 16;
+    optional int32 f_optional = 17;
+    oneof choice { int32 f_choice = 18; }
+  }
+
+  message Collections {
+    repeated int32 packed = 1;
+    repeated int32 unpacked = 2 [packed = false];
+    repeated string names = 3;
+    repeated Color colors = 4;
+    map<string, int32> counts = 5;
+    map<bool, string> flags = 6;
+    repeated Inner inners = 7;
+  }
+
+  message Inherited {
+    int32 constructor = 1;
+    int32 __proto__ = 2;
+    int32 toString = 3;
+  }
+`)
+
+const proto2 = parseProtoFile(`
+  syntax = "proto2";
+  message Legacy {
+    repeated int32 plain = 1;
+    repeated int32 packed = 2 [packed = true];
+    optional int32 opt = 3;
+  }
+`)
+
+const message = (name: string) => schema.messages.find((m) => m.name === name)!
+const sample = message("Sample")
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16)).buffer
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+const encode = (data: object, name = "Sample", options?: EncodeOptions) =>
+  toHex(encodeProtobufData(data, message(name), schema, options))
+
+describe("encodeProtobufData", () => {
+  it.each([
+    [{ f_double: 1.5 }, "09000000000000f83f"],
+    [{ f_double: "Infinity" }, "09000000000000f07f"],
+    [{ f_double: -0 }, "090000000000000080"],
+    [{ f_float: -2.5 }, "15000020c0"],
+    [{ f_int32: -2 }, "18feffffffffffffffff01"],
+    [{ f_int64: "-1" }, "20ffffffffffffffffff01"],
+    [{ f_int64: 42 }, "202a"],
+    [{ f_uint64: "18446744073709551615" }, "30ffffffffffffffffff01"],
+    [{ f_sint32: -2 }, "3803"],
+    [{ f_sint64: "-1" }, "4001"],
+    [{ f_fixed32: 4294967295 }, "4dffffffff"],
+    [{ f_fixed64: "1" }, "510100000000000000"],
+    [{ f_sfixed32: -2 }, "5dfeffffff"],
+    [{ f_sfixed64: "-2" }, "61feffffffffffffff"],
+    [{ f_bool: true }, "6801"],
+    [{ f_string: "é" }, "7202c3a9"],
+    [{ f_bytes: [1, 2] }, "7a020102"],
+    [{ f_bytes: "AQI=" }, "7a020102"],
+    [{ f_enum: "GREEN" }, "800101"],
+    [{ f_enum: 5 }, "800105"],
+    [{ f_enum: "<unknown Color: 7>" }, "800107"],
+    [{ fInt32: 1, fString: "a" }, "1801720161"],
+    [{ f_int32: null }, ""],
+  ])("encodes %j", (data, hex) => {
+    expect(encode(data, "Scalars")).toBe(hex)
+  })
+
+  it("leaves out defaults of fields without presence", () => {
+    const defaults = { f_double: 0, f_int32: 0, f_int64: "0", f_bool: false, f_string: "", f_bytes: [], f_enum: 0 }
+    expect(encode(defaults, "Scalars")).toBe("")
+    expect(encode({ f_optional: 0, f_choice: 0 }, "Scalars")).toBe("880100900100")
+    expect(encode({ f_message: {} })).toBe("1200")
+    expect(toHex(encodeProtobufData({ opt: 0 }, proto2.messages[0], proto2))).toBe("1800")
+  })
+
+  it("reads bytes given as strings in the chosen format", () => {
+    expect(encode({ f_bytes: "0102" }, "Scalars", { bytesFormat: "hex" })).toBe("7a020102")
+    expect(encode({ f_bytes: "AQI" }, "Scalars", { bytesFormat: "base64" })).toBe("7a020102")
+  })
+
+  it.each([
+    [{ packed: [1, 2] }, "0a020102"],
+    [{ packed: [] }, ""],
+    [{ unpacked: [1, 2] }, "10011002"],
+    [{ names: ["a", "b"] }, "1a01611a0162"],
+    [{ colors: ["GREEN", 0] }, "22020100"],
+    [{ counts: { a: 1 } }, "2a050a01611001"],
+    [{ flags: { true: "x", false: "" } }, "32050801120178320408001200"],
+    [{ inners: [{}, { value: 1 }] }, "3a003a020801"],
+  ])("encodes the collection %j", (data, hex) => {
+    expect(encode(data, "Collections")).toBe(hex)
+  })
+})
+describe("packed option", () => {
+  it.each([
+    ["plain", [1, 2], "08010802"],
+    ["packed", [1, 2], "12020102"],
+  ])("writes proto2 field %s as %s", (name, values, hex) => {
+    expect(toHex(encodeProtobufData({ [name]: values }, proto2.messages[0], proto2))).toBe(hex)
+  })
+})
+
+describe("fields named after inherited properties", () => {
+  it("writes own properties only", () => {
+    expect(encode(JSON.parse('{"constructor": 1, "__proto__": 2, "toString": 3}'), "Inherited")).toBe("080110021803")
+    expect(encode({}, "Inherited")).toBe("")
+  })
+})
+
+describe("round trips", () => {
+  it.each([
+    ["Scalars", "09000000000000f83f18feffffffffffffffff01202a3803720161800105880100"],
+    ["Collections", "0a0201021001100222020001"],
+    ["Collections", "2a050a016110012a050a01621002"],
+  ])("re-encodes decoded %s %s byte for byte", (name, hex) => {
+    for (const bytesFormat of ["array", "hex", "base64"] as const) {
+      const { data } = decodeProtobufData(fromHex(hex), message(name), schema, { bytesFormat, jsonNames: true })
+      expect(encode(data, name, { bytesFormat })).toBe(hex)
+    }
+  })
+})
+
+describe("well-known types", () => {
+  const { schema: known } = buildWorkspace([
+    {
+      path: "known.proto",
+      size: 0,
+      content: `
+        syntax = "proto3";
+        package known;
+        import "google/protobuf/any.proto";
+        import "google/protobuf/timestamp.proto";
+        import "google/protobuf/wrappers.proto";
+
+        message Point { int32 x = 1; }
+        message Known {
+          google.protobuf.Timestamp ts = 1;
+          google.protobuf.Int32Value wrapped = 2;
+          google.protobuf.Any any = 3;
+        }
+      `,
+    },
+  ])
+  const knownMessage = known.messages.find((m) => m.fullName === "known.Known")!
+  const encodeKnown = (data: DecodedData) => encodeProtobufData(data, knownMessage, known)
+
+  it.each([
+    [{ ts: "1970-01-01T00:01:40Z" }, "0a020864"],
+    [{ wrapped: 0 }, "1200"],
+    [{ wrapped: 5 }, "12020805"],
+  ])("encodes %j from its JSON form", (data, hex) => {
+    expect(toHex(encodeKnown(data))).toBe(hex)
+  })
+
+  it.each([
+    { "@type": "type.googleapis.com/known.Point", x: 5 },
+    { "@type": "type.googleapis.com/google.protobuf.Timestamp", value: "1970-01-01T00:01:40Z" },
+    { "@type": "type.googleapis.com/x.Missing", value: [1, 2] },
+  ])("encodes the Any %j so it decodes back the same", (any) => {
+    expect(decodeProtobufData(encodeKnown({ any }).buffer, knownMessage, known).data).toEqual({ any })
+  })
+
+  it.each([
+    [{ any: { "@type": "type.googleapis.com/x.Missing" } }, "any: message type x.Missing is not in the loaded schema"],
+    [{ any: { "@type": 1 } }, 'any: "@type" must be a string'],
+    [{ any: [] }, 'any: expected an object with "@type" for google.protobuf.Any'],
+  ])("rejects %j", (data, error) => {
+    expect(() => encodeKnown(data)).toThrow(error)
+  })
+})
+
+describe("invalid input", () => {
+  it.each([
+    ["Scalars", { nope: 1 }, "nope: test.Scalars has no field named nope"],
+    ["Scalars", { f_int32: "x" }, 'f_int32: expected an integer for int32, got "x"'],
+    ["Scalars", { f_int32: 1.5 }, "f_int32: expected an integer for int32, got 1.5"],
+    ["Scalars", { f_int32: 2147483648 }, "f_int32: 2147483648 is out of range for int32"],
+    ["Scalars", { f_uint32: -1 }, "f_uint32: -1 is out of range for uint32"],
+    ["Scalars", { f_uint64: "18446744073709551616" }, "f_uint64: 18446744073709551616 is out of range for uint64"],
+    ["Scalars", { f_double: "abc" }, 'f_double: expected a number, got "abc"'],
+    ["Scalars", { f_bool: 1 }, "f_bool: expected true or false, got 1"],
+    ["Scalars", { f_string: 1 }, "f_string: expected a string, got 1"],
+    ["Scalars", { f_bytes: "!!" }, "f_bytes: expected bytes as an array of octets or a base64 string"],
+    ["Scalars", { f_bytes: [256] }, "f_bytes: expected bytes as an array of octets or a base64 string"],
+    ["Scalars", { f_enum: "PURPLE" }, 'f_enum: "PURPLE" is not a value of Color'],
+    ["Sample", { f_message: 1 }, "f_message: expected an object for test.Inner, got 1"],
+    ["Collections", { packed: 1 }, "packed: expected an array for repeated field packed"],
+    ["Collections", { packed: [1, "x"] }, 'packed[1]: expected an integer for int32, got "x"'],
+    ["Collections", { counts: [] }, "counts: expected an object for counts"],
+    ["Collections", { counts: { a: "x" } }, 'counts["a"]: expected an integer for int32, got "x"'],
+    ["Collections", { inners: [{ value: "x" }] }, 'inners[0].value: expected an integer for int32, got "x"'],
+  ])("rejects %s %j", (name, data, error) => {
+    expect(() => encode(data, name)).toThrow(error)
+  })
+})
+
+describe("unknown fields", () => {
+  it.each([
+    ["0801f0019601", { f_int32: 1, $unknown: [{ number: 30, wireType: 0, value: 150, raw: "96 01" }] }],
+    ["f20103616263", { $unknown: [{ number: 30, wireType: 2, value: "abc", raw: "03 61 62 63" }] }],
+    [
+      "f50102000000f101",
+      { $unknown: [{ number: 30, wireType: 5, raw: "02 00 00 00" }, { number: 30, wireType: 1, raw: "" }] },
+    ],
+    ["12040801f001", { f_message: { value: 1, $unknown: [{ number: 30, wireType: 0, raw: "" }] } }],
+  ])("writes back %s after the known fields", (hex, data) => {
+    expect(encode(data)).toBe(hex)
+  })
+
+  it.each(["f0019601", "0801f20103616263f50102000000", "12050801f00101"])("re-encodes %s byte for byte", (hex) => {
+    const { data } = decodeProtobufData(fromHex(hex), sample, schema)
+    expect(encode(data)).toBe(hex)
+  })
+
+  it.each([
+    [{ $unknown: {} }, "$unknown: expected an array"],
+    [{ $unknown: [{ wireType: 0, raw: "" }] }, '$unknown[0]: unknown fields need "number", "wireType" and "raw"'],
+    [{ $unknown: [{ number: 30, wireType: 0 }] }, '$unknown[0]: unknown fields need "number", "wireType" and "raw"'],
+    [{ $unknown: [{ number: 30, wireType: 3, raw: "" }] }, "$unknown[0].wireType: expected 0, 1, 2 or 5, got 3"],
+    [{ $unknown: [{ number: 30, wireType: "0", raw: "" }] }, '$unknown[0].wireType: expected 0, 1, 2 or 5, got "0"'],
+    [
+      { $unknown: [{ number: 30, wireType: 0, raw: "01 zz" }] },
+      '$unknown[0].raw: expected space-separated hex bytes, got "zz"',
+    ],
+    [
+      { f_message: { $unknown: [{ number: 30, wireType: 4, raw: "" }] } },
+      "f_message.$unknown[0].wireType: expected 0, 1, 2 or 5, got 4",
+    ],
+  ])("rejects %j", (data, message) => {
+    expect(() => encode(data)).toThrow(message)
+  })
+})
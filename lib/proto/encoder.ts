@@ -0,0 +1,352 @@
+import { UNKNOWN_FIELDS_KEY, type BytesFormat, type DecodedData, type UnknownField } from "./decoder"
+import {
+  findEnum,
+  findMessage,
+  hasPresence,
+  isPackedField,
+  type ProtoEnum,
+  type ProtoField,
+  type ProtoMessage,
+  type ProtoSchema,
+} from "./schema"
+import { hasSpecialJson, wellKnownFromJson } from "./well-known"
+import {
+  isPackableType,
+  SCALAR_WIRE_TYPES,
+  WIRE_TYPE_FIXED32,
+  WIRE_TYPE_FIXED64,
+  WIRE_TYPE_LENGTH_DELIMITED,
+  WIRE_TYPE_VARINT,
+} from "./wire"
+
+export interface EncodeOptions {
+  /** How bytes fields given as strings are spelled; decoded arrays are always accepted. */
+  bytesFormat?: BytesFormat
+}
+
+interface EncodeContext {
+  schema: ProtoSchema
+  bytesFormat: BytesFormat
+}
+
+const joinPath = (path: string, name: string) => (path ? `${path}.${name}` : name)
+
+const isPlainObject = (value: unknown): value is DecodedData =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const SEVEN = BigInt(7)
+const LOW_SEVEN_BITS = BigInt(0x7f)
+const VARINT_CONTINUE = BigInt(0x80)
+
+/** Encodes an integer as a varint; negative values are written as their 64-bit two's complement. */
+export const encodeVarint = (value: bigint | number): number[] => {
+  let remaining = BigInt.asUintN(64, BigInt(value))
+  const bytes: number[] = []
+  while (remaining >= VARINT_CONTINUE) {
+    bytes.push(Number(remaining & LOW_SEVEN_BITS) | 0x80)
+    remaining >>= SEVEN
+  }
+  bytes.push(Number(remaining))
+  return bytes
+}
+
+export const encodeTag = (fieldNumber: number, wireType: number) => encodeVarint(fieldNumber * 8 + wireType)
+
+const zigZagEncode = (value: bigint, bits: number) =>
+  BigInt.asUintN(bits, (value << BigInt(1)) ^ (value >> BigInt(bits - 1)))
+
+export const INTEGER_RANGES: Record<string, [bigint, bigint]> = {
+  int32: [-(BigInt(1) << BigInt(31)), (BigInt(1) << BigInt(31)) - BigInt(1)],
+  sint32: [-(BigInt(1) << BigInt(31)), (BigInt(1) << BigInt(31)) - BigInt(1)],
+  sfixed32: [-(BigInt(1) << BigInt(31)), (BigInt(1) << BigInt(31)) - BigInt(1)],
+  uint32: [BigInt(0), (BigInt(1) << BigInt(32)) - BigInt(1)],
+  fixed32: [BigInt(0), (BigInt(1) << BigInt(32)) - BigInt(1)],
+  int64: [-(BigInt(1) << BigInt(63)), (BigInt(1) << BigInt(63)) - BigInt(1)],
+  sint64: [-(BigInt(1) << BigInt(63)), (BigInt(1) << BigInt(63)) - BigInt(1)],
+  sfixed64: [-(BigInt(1) << BigInt(63)), (BigInt(1) << BigInt(63)) - BigInt(1)],
+  uint64: [BigInt(0), (BigInt(1) << BigInt(64)) - BigInt(1)],
+  fixed64: [BigInt(0), (BigInt(1) << BigInt(64)) - BigInt(1)],
+}
+
+// 64-bit values arrive as strings or, with int64AsNumber, as numbers
+const toInteger = (value: any, type: string, path: string): bigint => {
+  let result: bigint | undefined
+  if (typeof value === "number" && Number.isInteger(value)) {
+    result = BigInt(value)
+  } else if (typeof value === "string" && /^-?\d+$/.test(value.trim())) {
+    result = BigInt(value.trim())
+  }
+  if (result === undefined) {
+    throw new Error(`${path}: expected an integer for ${type}, got ${JSON.stringify(value)}`)
+  }
+  const [min, max] = INTEGER_RANGES[type]
+  if (result < min || result > max) {
+    throw new Error(`${path}: ${result} is out of range for ${type}`)
+  }
+  return result
+}
+
+const toFloat = (value: any, path: string): number => {
+  if (typeof value === "number") return value
+  if (value === "NaN") return Number.NaN
+  if (value === "Infinity") return Number.POSITIVE_INFINITY
+  if (value === "-Infinity") return Number.NEGATIVE_INFINITY
+  if (typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value))) return Number(value)
+  throw new Error(`${path}: expected a number, got ${JSON.stringify(value)}`)
+}
+
+// Bytes are decoded as arrays of octets, or as base64 or hex strings depending on the output options
+export const toBytes = (value: any, path: string, format: BytesFormat = "base64"): number[] => {
+  if (Array.isArray(value) && value.every((b) => Number.isInteger(b) && b >= 0 && b <= 255)) {
+    return value
+  }
+  if (typeof value === "string" && format === "hex") {
+    const hex = value.replace(/\s+/g, "")
+    if (/^([0-9a-fA-F]{2})*$/.test(hex)) return (hex.match(/../g) ?? []).map((b) => Number.parseInt(b, 16))
+    throw new Error(`${path}: expected bytes as a hex string`)
+  }
+  if (typeof value === "string") {
+    try {
+      const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+      return Array.from(binary, (c) => c.charCodeAt(0))
+    } catch {
+      // Reported below
+    }
+  }
+  throw new Error(`${path}: expected bytes as an array of octets or a base64 string`)
+}
+
+export const UNKNOWN_ENUM_PLACEHOLDER = /^<unknown [\w.]+: (-?\d+)>$/
+
+// Enums are written by name, by number, or as the decoder's `<unknown Enum: N>` placeholder
+const toEnumNumber = (enumType: ProtoEnum, value: any, path: string): number => {
+  if (typeof value === "number" && Number.isInteger(value)) return value
+  if (typeof value === "string") {
+    const match = enumType.values.find((v) => v.name === value)
+    if (match) return match.number
+    const placeholder = UNKNOWN_ENUM_PLACEHOLDER.exec(value)
+    if (placeholder) return Number(placeholder[1])
+  }
+  throw new Error(`${path}: ${JSON.stringify(value)} is not a value of ${enumType.name}`)
+}
+
+const fixedBytes = (size: 4 | 8, write: (view: DataView) => void) => {
+  const view = new DataView(new ArrayBuffer(size))
+  write(view)
+  return Array.from(new Uint8Array(view.buffer))
+}
+
+const lengthPrefixed = (bytes: number[]) => [...encodeVarint(bytes.length), ...bytes]
+
+// Encodes a scalar's value, without its tag. Strings and bytes include their length prefix.
+const encodeScalar = (type: string, value: any, ctx: EncodeContext, path: string): number[] => {
+  switch (type) {
+    case "int32":
+    case "int64":
+    case "uint32":
+    case "uint64":
+      return encodeVarint(toInteger(value, type, path))
+    case "sint32":
+      return encodeVarint(zigZagEncode(toInteger(value, type, path), 32))
+    case "sint64":
+      return encodeVarint(zigZagEncode(toInteger(value, type, path), 64))
+    case "bool":
+      if (typeof value !== "boolean") throw new Error(`${path}: expected true or false, got ${JSON.stringify(value)}`)
+      return [value ? 1 : 0]
+    case "fixed32":
+      return fixedBytes(4, (view) => view.setUint32(0, Number(toInteger(value, type, path)), true))
+    case "sfixed32":
+      return fixedBytes(4, (view) => view.setInt32(0, Number(toInteger(value, type, path)), true))
+    case "float":
+      return fixedBytes(4, (view) => view.setFloat32(0, toFloat(value, path), true))
+    case "fixed64":
+      return fixedBytes(8, (view) => view.setBigUint64(0, toInteger(value, type, path), true))
+    case "sfixed64":
+      return fixedBytes(8, (view) => view.setBigInt64(0, toInteger(value, type, path), true))
+    case "double":
+      return fixedBytes(8, (view) => view.setFloat64(0, toFloat(value, path), true))
+    case "string":
+      if (typeof value !== "string") throw new Error(`${path}: expected a string, got ${JSON.stringify(value)}`)
+      return lengthPrefixed(Array.from(new TextEncoder().encode(value)))
+    case "bytes":
+      return lengthPrefixed(toBytes(value, path, ctx.bytesFormat))
+    default:
+      throw new Error(`${path}: unsupported scalar type ${type}`)
+  }
+}
+
+// Encodes a google.protobuf.Any from its `{"@type", ...}` JSON form
+const encodeAny = (json: any, ctx: EncodeContext, path: string): number[] => {
+  if (!isPlainObject(json)) throw new Error(`${path}: expected an object with "@type" for google.protobuf.Any`)
+  const { "@type": typeUrl, ...rest } = json
+  if (typeUrl === undefined) return []
+  if (typeof typeUrl !== "string") throw new Error(`${path}: "@type" must be a string`)
+
+  const typeName = typeUrl.slice(typeUrl.lastIndexOf("/") + 1)
+  const target = findMessage(ctx.schema, typeName)
+  let payload: number[]
+  if (target) {
+    payload = hasSpecialJson(target.fullName)
+      ? encodeMessageValue(rest.value, target, ctx, path)
+      : encodeMessageValue(rest, target, ctx, path)
+  } else if (Object.hasOwn(rest, "value")) {
+    // Payloads of types missing from the schema were kept as raw bytes
+    payload = toBytes(rest.value, joinPath(path, "value"), ctx.bytesFormat)
+  } else {
+    throw new Error(`${path}: message type ${typeName} is not in the loaded schema`)
+  }
+
+  return [
+    ...encodeTag(1, WIRE_TYPE_LENGTH_DELIMITED),
+    ...encodeScalar("string", typeUrl, ctx, path),
+    ...(payload.length > 0 ? [...encodeTag(2, WIRE_TYPE_LENGTH_DELIMITED), ...lengthPrefixed(payload)] : []),
+  ]
+}
+
+const encodeMessageValue = (value: any, message: ProtoMessage, ctx: EncodeContext, path: string): number[] => {
+  if (message.fullName === "google.protobuf.Any") return encodeAny(value, ctx, path)
+  return encodeMessage(wellKnownFromJson(message.fullName, value), message, ctx, path)
+}
+
+// Encodes one occurrence of a field, tag included
+const encodeSingular = (field: ProtoField, value: any, ctx: EncodeContext, path: string): number[] => {
+  const scalarWireType = SCALAR_WIRE_TYPES.get(field.type)
+  if (scalarWireType !== undefined) {
+    return [...encodeTag(field.number, scalarWireType), ...encodeScalar(field.type, value, ctx, path)]
+  }
+
+  const enumType = field.resolvedType ? findEnum(ctx.schema, field.resolvedType) : undefined
+  if (enumType) {
+    return [...encodeTag(field.number, WIRE_TYPE_VARINT), ...encodeVarint(toEnumNumber(enumType, value, path))]
+  }
+
+  const messageType = field.resolvedType ? findMessage(ctx.schema, field.resolvedType) : undefined
+  if (messageType) {
+    const bytes = encodeMessageValue(value, messageType, ctx, path)
+    return [...encodeTag(field.number, WIRE_TYPE_LENGTH_DELIMITED), ...lengthPrefixed(bytes)]
+  }
+
+  throw new Error(`${path}: type ${field.type} is not defined in the loaded schema`)
+}
+
+// Groups are never kept as unknown fields, so only these wire types can be written back
+const UNKNOWN_WIRE_TYPES = [WIRE_TYPE_VARINT, WIRE_TYPE_FIXED64, WIRE_TYPE_LENGTH_DELIMITED, WIRE_TYPE_FIXED32]
+
+const encodeUnknown = (field: UnknownField, path: string): number[] => {
+  if (!Number.isInteger(field.number) || typeof field.raw !== "string") {
+    throw new Error(`${path}: unknown fields need "number", "wireType" and "raw"`)
+  }
+  if (!UNKNOWN_WIRE_TYPES.includes(field.wireType)) {
+    throw new Error(`${joinPath(path, "wireType")}: expected 0, 1, 2 or 5, got ${JSON.stringify(field.wireType)}`)
+  }
+  const tokens = field.raw.trim() ? field.raw.trim().split(/\s+/) : []
+  const invalid = tokens.find((b) => !/^[0-9a-f]{2}$/i.test(b))
+  if (invalid !== undefined) {
+    throw new Error(`${joinPath(path, "raw")}: expected space-separated hex bytes, got ${JSON.stringify(invalid)}`)
+  }
+  return [...encodeTag(field.number, field.wireType), ...tokens.map((b) => Number.parseInt(b, 16))]
+}
+
+// Zero, false, an empty string or bytes, or enum value 0 all encode as zero bytes after the tag
+const isDefaultEncoding = (field: ProtoField, encoded: number[]) => {
+  const wireType = SCALAR_WIRE_TYPES.get(field.type) ?? WIRE_TYPE_VARINT
+  return encoded.slice(encodeTag(field.number, wireType).length).every((b) => b === 0)
+}
+
+const encodeField = (field: ProtoField, value: any, ctx: EncodeContext, path: string): number[] => {
+  if (field.map) {
+    if (!isPlainObject(value)) throw new Error(`${path}: expected an object for ${field.name}`)
+    const entryType = field.resolvedType ? findMessage(ctx.schema, field.resolvedType) : undefined
+    if (!entryType) throw new Error(`${path}: map entry type ${field.type} not found`)
+    const [keyField, valueField] = entryType.fields
+
+    return Object.entries(value).flatMap(([key, entryValue]) => {
+      const entryPath = `${path}[${JSON.stringify(key)}]`
+      // JSON object keys are always strings; bool keys are spelled out
+      const typedKey = keyField.type === "bool" ? key === "true" : key
+      const entry = [
+        ...encodeSingular(keyField, typedKey, ctx, entryPath),
+        ...encodeSingular(valueField, entryValue, ctx, entryPath),
+      ]
+      return [...encodeTag(field.number, WIRE_TYPE_LENGTH_DELIMITED), ...lengthPrefixed(entry)]
+    })
+  }
+
+  if (field.repeated) {
+    if (!Array.isArray(value)) throw new Error(`${path}: expected an array for repeated field ${field.name}`)
+    const enumType = field.resolvedType ? findEnum(ctx.schema, field.resolvedType) : undefined
+
+    if (isPackedField(field, ctx.schema) && (enumType || isPackableType(field.type)) && value.length > 0) {
+      const elements = value.flatMap((element, i) =>
+        enumType
+          ? encodeVarint(toEnumNumber(enumType, element, `${path}[${i}]`))
+          : encodeScalar(field.type, element, ctx, `${path}[${i}]`),
+      )
+      return [...encodeTag(field.number, WIRE_TYPE_LENGTH_DELIMITED), ...lengthPrefixed(elements)]
+    }
+    return value.flatMap((element, i) => encodeSingular(field, element, ctx, `${path}[${i}]`))
+  }
+
+  return encodeSingular(field, value, ctx, path)
+}
+
+function encodeMessage(json: any, message: ProtoMessage, ctx: EncodeContext, path: string): number[] {
+  if (!isPlainObject(json)) {
+    throw new Error(`${path || message.name}: expected an object for ${message.fullName}, got ${JSON.stringify(json)}`)
+  }
+
+  const fieldsByKey = new Map<string, ProtoField>()
+  message.fields.forEach((field) => {
+    fieldsByKey.set(field.name, field)
+    fieldsByKey.set(field.jsonName, field)
+  })
+  Object.keys(json).forEach((key) => {
+    if (key !== UNKNOWN_FIELDS_KEY && !fieldsByKey.has(key)) {
+      throw new Error(`${joinPath(path, key)}: ${message.fullName} has no field named ${key}`)
+    }
+  })
+
+  // Fields are written in field-number order, as protoc does, followed by unknown fields
+  let bytes: number[] = []
+  const fields = [...message.fields].sort((a, b) => a.number - b.number)
+  fields.forEach((field) => {
+    const key = Object.hasOwn(json, field.name) ? field.name : field.jsonName
+    if (!Object.hasOwn(json, key)) return
+    const value = json[key]
+    // null means absent in proto3 JSON, except where it stands for google.protobuf.NullValue
+    if (value === null && field.resolvedType !== "google.protobuf.Value") return
+    const encoded = encodeField(field, value, ctx, joinPath(path, field.name))
+    // Fields without presence are not written at their default value, as protoc does
+    if (!hasPresence(field, ctx.schema) && isDefaultEncoding(field, encoded)) return
+    bytes = bytes.concat(encoded)
+  })
+
+  const unknown = json[UNKNOWN_FIELDS_KEY]
+  if (unknown !== undefined) {
+    if (!Array.isArray(unknown)) throw new Error(`${joinPath(path, UNKNOWN_FIELDS_KEY)}: expected an array`)
+    unknown.forEach((field, i) => {
+      bytes = bytes.concat(encodeUnknown(field, `${joinPath(path, UNKNOWN_FIELDS_KEY)}[${i}]`))
+    })
+  }
+  return bytes
+}
+
+/**
+ * Serializes decoded JSON for a message back into the protobuf wire format. It
+ * accepts everything the decoder produces: enum names and `<unknown Enum: N>`
+ * placeholders, 64-bit values as strings or numbers, canonical JSON for the
+ * well-known types, Any payloads and unknown fields, which are written back
+ * byte for byte. Fields may be keyed by their declared or their JSON name.
+ */
+export function encodeProtobufData(
+  data: DecodedData,
+  message: ProtoMessage,
+  schema: ProtoSchema,
+  options: EncodeOptions = {},
+): Uint8Array<ArrayBuffer> {
+  const ctx: EncodeContext = {
+    schema,
+    bytesFormat: options.bytesFormat ?? "base64",
+  }
+  return new Uint8Array(encodeMessage(data, message, ctx, ""))
+}
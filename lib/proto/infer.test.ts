@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+import { inferSchema, renderInferredProto } from "./infer"
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16)).buffer
+
+describe("inferSchema", () => {
+  it.each([
+    ["0801", "int32", []],
+    ["08ffffffff0f", "uint32", []],
+    ["088080808010", "int64", []],
+    ["08ffffffffffffffffff01", "int64", ["negative values seen; sint types would use zigzag encoding"]],
+    ["0d0000803f", "float", []],
+    ["0dffffffff", "fixed32", []],
+    ["09000000000000f03f", "double", []],
+    ["090100000000000000", "fixed64", []],
+    ["0a03616263", "string", []],
+    ["0a00", "string", []],
+    ["0a03ffffff", "bytes", []],
+  ])("infers %s as %s", (hex, type, notes) => {
+    const { message, warnings } = inferSchema([fromHex(hex)])
+    expect(warnings).toEqual([])
+    expect(message.fields).toEqual([{ number: 1, name: "field_1", type, repeated: false, notes }])
+  })
+
+  it.each([
+    [["0801", "0802"], false],
+    [["0801", "08010802"], true],
+    [["0a020102"], true],
+    [["0801", "0d00000000"], false],
+  ])("infers whether %j is repeated", (samples, repeated) => {
+    const { message } = inferSchema(samples.map(fromHex))
+    expect(message.fields[0].repeated).toBe(repeated)
+  })
+
+  it("notes fields seen with more than one wire type", () => {
+    const { message } = inferSchema([fromHex("0801"), fromHex("0d00000000")])
+    expect(message.fields[0]).toMatchObject({ type: "int32", notes: ["seen as varint and 32-bit"] })
+  })
+
+  it("infers nested messages from every sample", () => {
+    const { message, samples } = inferSchema([fromHex("0a020801"), fromHex("0a0708021203616263")], "Root")
+    expect(samples).toBe(2)
+    expect(message.name).toBe("Root")
+    expect(message.fields[0]).toMatchObject({ name: "field_1", type: "Field1", repeated: false })
+    expect(message.fields[0].message).toEqual({
+      name: "Field1",
+      fields: [
+        { number: 1, name: "field_1", type: "int32", repeated: false, notes: [] },
+        { number: 2, name: "field_2", type: "string", repeated: false, notes: [] },
+      ],
+    })
+  })
+
+  it("stops nesting at the depth limit", () => {
+    const { message } = inferSchema([fromHex("0a020801")], "Root", 1)
+    expect(message.fields[0]).toMatchObject({ type: "bytes" })
+    expect(message.fields[0].message).toBeUndefined()
+  })
+
+  it.each([
+    ["0a05", "Inferred: sample 1 stopped at offset 1: length 5 runs past the end"],
+    ["08010d0000", "Inferred: sample 1 stopped at offset 3: truncated 32-bit value"],
+    ["0b", "Inferred: sample 1 stopped at offset 1: unsupported wire type 3"],
+  ])("warns about the truncated sample %s", (hex, warning) => {
+    expect(inferSchema([fromHex(hex)]).warnings).toEqual([warning])
+  })
+})
+
+describe("renderInferredProto", () => {
+  it("declares nested messages inside their parent and notes as comments", () => {
+    const { message } = inferSchema([fromHex("0a0208011203616263"), fromHex("0a0208021a020102")], "Root")
+    expect(renderInferredProto(message, 2)).toBe(
+      [
+        'syntax = "proto3";',
+        "",
+        "// Inferred from 2 samples; field names and types are guesses.",
+        "message Root {",
+        "  Field1 field_1 = 1;",
+        "  string field_2 = 2;",
+        "  repeated int32 field_3 = 3; // packed varints",
+        "",
+        "  message Field1 {",
+        "    int32 field_1 = 1;",
+        "  }",
+        "}",
+        "",
+      ].join("\n"),
+    )
+  })
+})
@@ -0,0 +1,238 @@
+import { decodeVarint, decodeVarint64 } from "./decoder"
+import { guessLengthDelimited, isValidMessage, type RawInterpretation } from "./raw"
+import {
+  WIRE_TYPE_FIXED32,
+  WIRE_TYPE_FIXED64,
+  WIRE_TYPE_LENGTH_DELIMITED,
+  WIRE_TYPE_NAMES,
+  WIRE_TYPE_VARINT,
+} from "./wire"
+
+export interface InferredField {
+  number: number
+  name: string
+  /** Scalar type name, or the name of `message` for nested messages. */
+  type: string
+  repeated: boolean
+  message?: InferredMessage
+  /** Observations worth a second look, rendered as comments in the .proto. */
+  notes: string[]
+}
+
+export interface InferredMessage {
+  name: string
+  fields: InferredField[]
+}
+
+export interface InferenceResult {
+  message: InferredMessage
+  /** Number of sample binaries the message was inferred from. */
+  samples: number
+  warnings: string[]
+}
+
+interface Observation {
+  wireTypes: Record<number, number>
+  /** Most occurrences seen within a single message instance. */
+  maxPerMessage: number
+  varints: bigint[]
+  fixed: Uint8Array[]
+  payloads: Uint8Array[]
+}
+
+const INT32_MAX = BigInt(2147483647)
+const UINT32_MAX = BigInt(4294967295)
+const INT64_SIGN = BigInt(1) << BigInt(63)
+
+const varintType = (values: bigint[]) => {
+  if (values.some((v) => v > UINT32_MAX)) return "int64"
+  if (values.some((v) => v > INT32_MAX)) return "uint32"
+  return "int32"
+}
+
+// A fixed-width value is taken for a float when every sample reads as a number of
+// unremarkable magnitude; anything else is more likely an integer or hash
+const isPlausibleFloat = (value: number, limit: number) =>
+  value === 0 || (Number.isFinite(value) && Math.abs(value) > 1 / limit && Math.abs(value) < limit)
+
+const fixedType = (values: Uint8Array[], wireType: number) => {
+  const size = wireType === WIRE_TYPE_FIXED64 ? 8 : 4
+  const views = values
+    .filter((v) => v.length === size)
+    .map((v) => new DataView(v.buffer, v.byteOffset, v.byteLength))
+  if (wireType === WIRE_TYPE_FIXED64) {
+    return views.every((v) => isPlausibleFloat(v.getFloat64(0, true), 1e18)) ? "double" : "fixed64"
+  }
+  return views.every((v) => isPlausibleFloat(v.getFloat32(0, true), 1e9)) ? "float" : "fixed32"
+}
+
+// The reading most payloads were guessed as, provided every payload supports it
+const lengthDelimitedKind = (payloads: Uint8Array[]): RawInterpretation => {
+  const guesses = payloads.filter((p) => p.length > 0).map(guessLengthDelimited)
+  if (guesses.length === 0) return "string"
+
+  const counts: Partial<Record<RawInterpretation, number>> = {}
+  guesses.forEach((g) => (counts[g.kind] = (counts[g.kind] ?? 0) + 1))
+  const best = (Object.keys(counts) as RawInterpretation[]).sort((a, b) => counts[b]! - counts[a]!)[0]
+
+  if (guesses.every((g) => g.candidates.includes(best))) return best
+  if (guesses.every((g) => g.candidates.includes("string"))) return "string"
+  return "bytes"
+}
+
+const toMessageName = (fieldName: string) =>
+  fieldName
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("")
+
+/**
+ * Infers a message definition from sample encodings of it. Field numbers and
+ * wire types come straight from the data; scalar types, repeated-ness and nested
+ * messages are best guesses that get better with more samples.
+ */
+export function inferMessage(
+  name: string,
+  samples: Uint8Array[],
+  warnings: string[] = [],
+  maxDepth = 64,
+): InferredMessage {
+  const observations = new Map<number, Observation>()
+
+  samples.forEach((data, sampleIndex) => {
+    const counts = new Map<number, number>()
+    let offset = 0
+    try {
+      while (offset < data.length) {
+        const { value: tag, newOffset } = decodeVarint(data, offset)
+        offset = newOffset
+        const fieldNumber = Math.floor(tag / 8)
+        const wireType = tag % 8
+
+        let obs = observations.get(fieldNumber)
+        if (!obs) {
+          obs = { wireTypes: {}, maxPerMessage: 0, varints: [], fixed: [], payloads: [] }
+          observations.set(fieldNumber, obs)
+        }
+        obs.wireTypes[wireType] = (obs.wireTypes[wireType] ?? 0) + 1
+        counts.set(fieldNumber, (counts.get(fieldNumber) ?? 0) + 1)
+
+        switch (wireType) {
+          case WIRE_TYPE_VARINT: {
+            const varint = decodeVarint64(data, offset)
+            obs.varints.push(varint.value)
+            offset = varint.newOffset
+            break
+          }
+          case WIRE_TYPE_FIXED64:
+          case WIRE_TYPE_FIXED32: {
+            const size = wireType === WIRE_TYPE_FIXED64 ? 8 : 4
+            if (offset + size > data.length) throw new Error(`truncated ${size * 8}-bit value`)
+            obs.fixed.push(data.subarray(offset, offset + size))
+            offset += size
+            break
+          }
+          case WIRE_TYPE_LENGTH_DELIMITED: {
+            const { value: length, newOffset: payloadOffset } = decodeVarint(data, offset)
+            if (payloadOffset + length > data.length) throw new Error(`length ${length} runs past the end`)
+            obs.payloads.push(data.subarray(payloadOffset, payloadOffset + length))
+            offset = payloadOffset + length
+            break
+          }
+          default:
+            throw new Error(`unsupported wire type ${wireType}`)
+        }
+      }
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err)
+      warnings.push(`${name}: sample ${sampleIndex + 1} stopped at offset ${offset}: ${reason}`)
+    }
+    counts.forEach((count, fieldNumber) => {
+      const obs = observations.get(fieldNumber)!
+      obs.maxPerMessage = Math.max(obs.maxPerMessage, count)
+    })
+  })
+
+  const fields = [...observations.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([number, obs]): InferredField => {
+      const fieldName = `field_${number}`
+      const notes: string[] = []
+      const wireTypes = Object.keys(obs.wireTypes).map(Number)
+      const wireType = wireTypes.sort((a, b) => obs.wireTypes[b] - obs.wireTypes[a])[0]
+      if (wireTypes.length > 1) {
+        notes.push(`seen as ${wireTypes.map((w) => WIRE_TYPE_NAMES[w] ?? w).join(" and ")}`)
+      }
+      let repeated = obs.maxPerMessage > 1
+
+      switch (wireType) {
+        case WIRE_TYPE_VARINT: {
+          const negative = obs.varints.some((v) => v >= INT64_SIGN)
+          if (negative) notes.push("negative values seen; sint types would use zigzag encoding")
+          return { number, name: fieldName, type: negative ? "int64" : varintType(obs.varints), repeated, notes }
+        }
+        case WIRE_TYPE_FIXED64:
+        case WIRE_TYPE_FIXED32:
+          return { number, name: fieldName, type: fixedType(obs.fixed, wireType), repeated, notes }
+        default: {
+          let kind = lengthDelimitedKind(obs.payloads)
+          const allMessages = obs.payloads.every((p) => p.length === 0 || isValidMessage(p))
+          if (kind === "message" && (maxDepth <= 1 || !allMessages)) kind = "bytes"
+          if (kind === "message") {
+            const message = inferMessage(toMessageName(fieldName), obs.payloads, warnings, maxDepth - 1)
+            return { number, name: fieldName, type: message.name, repeated, message, notes }
+          }
+          if (kind === "packed") {
+            const values = obs.payloads.flatMap((p) => {
+              const result: bigint[] = []
+              for (let offset = 0; offset < p.length; ) {
+                const varint = decodeVarint64(p, offset)
+                result.push(varint.value)
+                offset = varint.newOffset
+              }
+              return result
+            })
+            notes.push("packed varints")
+            repeated = true
+            return { number, name: fieldName, type: varintType(values), repeated, notes }
+          }
+          return { number, name: fieldName, type: kind === "string" ? "string" : "bytes", repeated, notes }
+        }
+      }
+    })
+
+  return { name, fields }
+}
+
+/** Infers the top-level message shared by one or more sample binaries. */
+export function inferSchema(samples: ArrayBuffer[], name = "Inferred", maxDepth = 64): InferenceResult {
+  const warnings: string[] = []
+  const message = inferMessage(name, samples.map((s) => new Uint8Array(s)), warnings, maxDepth)
+  return { message, samples: samples.length, warnings }
+}
+
+/** Renders an inferred message, with nested messages declared inside their parent, as a proto3 file. */
+export function renderInferredProto(message: InferredMessage, samples = 1): string {
+  const render = (msg: InferredMessage, indent: string): string[] => {
+    const lines = [`${indent}message ${msg.name} {`]
+    msg.fields.forEach((field) => {
+      const type = field.message ? field.message.name : field.type
+      const comment = field.notes.length > 0 ? ` // ${field.notes.join("; ")}` : ""
+      lines.push(`${indent}  ${field.repeated ? "repeated " : ""}${type} ${field.name} = ${field.number};${comment}`)
+    })
+    msg.fields.forEach((field) => {
+      if (!field.message) return
+      lines.push("", ...render(field.message, indent + "  "))
+    })
+    lines.push(`${indent}}`)
+    return lines
+  }
+
+  return [
+    'syntax = "proto3";',
+    "",
+    `// Inferred from ${samples} sample${samples === 1 ? "" : "s"}; field names and types are guesses.`,
+    ...render(message, ""),
+    "",
+  ].join("\n")
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest"
+import { describeWireValue, mapWireLayout, type WireLayoutOptions, type WireRecord } from "./layout"
+import { parseProtoFile } from "./schema"
+
+const schema = parseProtoFile(`
+  syntax = "proto3";
+  package wl;
+
+  enum Color { COLOR_UNSPECIFIED = 0; RED = 1; }
+  message Inner { int32 n = 1; }
+
+  message Sample {
+    int32 i = 1;
+    string s = 2;
+    Inner inner = 3;
+    repeated int32 nums = 4;
+    repeated Inner inners = 5;
+    sint32 z = 6;
+    double d = 7;
+    fixed32 f = 8;
+    Color color = 9;
+    bool flag = 10;
+    bytes b = 11;
+    sfixed64 sf = 12;
+  }
+`)
+
+const sample = schema.messages.find((m) => m.fullName === "wl.Sample")!
+const withSchema = { message: sample, schema }
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16))
+const layout = (hex: string, options: WireLayoutOptions = withSchema) =>
+  mapWireLayout(fromHex(hex.replace(/ /g, "")).buffer, options)
+
+// Records flattened depth first, as [path, offset, tag length, length prefix, value offset, value length]
+const flatten = (records: WireRecord[]): unknown[] =>
+  records.flatMap((r) => [
+    [r.path, r.offset, r.tagLength, r.lengthPrefix, r.valueOffset, r.valueLength],
+    ...flatten(r.children),
+  ])
+
+describe("mapWireLayout", () => {
+  it.each<[string, WireLayoutOptions, unknown[]]>([
+    ["0801 1203616263", withSchema, [["i", 0, 1, 0, 1, 1], ["s", 2, 1, 1, 4, 3]]],
+    ["1a020805", withSchema, [["inner", 0, 1, 1, 2, 2], ["inner.n", 2, 1, 0, 3, 1]]],
+    [
+      "2001 2202 0203",
+      withSchema,
+      [["nums[0]", 0, 1, 0, 1, 1], ["nums", 2, 1, 1, 4, 2], ["nums[1]", 4, 0, 0, 4, 1], ["nums[2]", 5, 0, 0, 5, 1]],
+    ],
+    ["2a00 2a00", withSchema, [["inners[0]", 0, 1, 1, 2, 0], ["inners[1]", 2, 1, 1, 4, 0]]],
+    ["f80101 0d00000000", withSchema, [["#31", 0, 2, 0, 2, 1], ["#1", 3, 1, 0, 4, 4]]],
+    ["1a020805", { ...withSchema, maxDepth: 0 }, [["inner", 0, 1, 1, 2, 2]]],
+    ["0801 1a020805", {}, [["1[0]", 0, 1, 0, 1, 1], ["3[0]", 2, 1, 1, 4, 2], ["3[0].1[0]", 4, 1, 0, 5, 1]]],
+    ["1a020805", { overrides: { "3[0]": "bytes" } }, [["3[0]", 0, 1, 1, 2, 2]]],
+    ["1a03616263", {}, [["3[0]", 0, 1, 1, 2, 3]]],
+  ])("maps %s", (hex, options, records) => {
+    const result = layout(hex, options)
+    expect(result.errors).toEqual([])
+    expect(flatten(result.records)).toEqual(records)
+  })
+
+  it("ties records to their schema fields", () => {
+    const [inner] = layout("1a020805 f80101").records.filter((r) => r.path === "inner")
+    expect(inner.field?.name).toBe("inner")
+    expect(inner.children[0].field?.name).toBe("n")
+    expect(layout("f80101").records[0].field).toBeUndefined()
+  })
+
+  it.each<[string, WireLayoutOptions, number, { offset: number; end: number; path: string; reason: string }]>([
+    ["0801 0a05", {}, 1, { offset: 2, end: 4, path: "1[1]", reason: "Length 5 runs past the end of the data" }],
+    ["0801 00", withSchema, 1, { offset: 2, end: 3, path: "", reason: "Field number 0 is not valid" }],
+    ["0801 0d0000", withSchema, 1, { offset: 2, end: 5, path: "#1", reason: "Unexpected end of data" }],
+    [
+      "08ff",
+      withSchema,
+      0,
+      { offset: 0, end: 2, path: "i", reason: "Unexpected end of data while reading varint" },
+    ],
+  ])("marks where %s stops being readable", (hex, options, count, error) => {
+    const result = layout(hex, options)
+    expect(result.records).toHaveLength(count)
+    expect(result.unreadable).toEqual(error)
+    expect(result.errors).toEqual([error])
+  })
+
+  it.each([
+    [
+      "1a02 0a05 0801",
+      "inner",
+      { offset: 2, end: 4, path: "inner.#1", reason: "Length 5 runs past the end of the data" },
+    ],
+    [
+      "2202 01ff 0801",
+      "nums",
+      { offset: 3, end: 4, path: "nums", reason: "Packed int32 element runs past the end of the field" },
+    ],
+  ])("keeps reading after the unreadable payload in %s", (hex, path, error) => {
+    const result = layout(hex)
+    expect(result.unreadable).toBeUndefined()
+    expect(result.records.map((r) => r.path)).toEqual([path, "i"])
+    expect(result.records[0].unreadable).toEqual(error)
+    expect(result.errors).toEqual([error])
+  })
+})
+
+describe("describeWireValue", () => {
+  const describeAll = (hex: string, options: WireLayoutOptions = withSchema) => {
+    const bytes = fromHex(hex.replace(/ /g, ""))
+    return mapWireLayout(bytes.buffer, options).records.map((r) => describeWireValue(bytes, r, options.schema))
+  }
+
+  it.each([
+    ["08ff01", "255"],
+    ["08ffffffff0f", "-1"],
+    ["3003", "-2"],
+    ["39000000000000f83f", "1.5"],
+    ["4501000000", "1"],
+    ["61ffffffffffffffff", "-1"],
+    ["4801", "RED"],
+    ["4805", "<unknown Color: 5>"],
+    ["5002", "true"],
+    ["1203616263", '"abc"'],
+    ["5a02ff00", "ff 00"],
+    ["5a00", "(empty)"],
+    ["1a020805", "wl.Inner, 1 field"],
+    ["1a00", "wl.Inner, 0 fields"],
+    ["1a020a05", "wl.Inner, 0 fields"],
+    ["2203010203", "packed, 3 elements"],
+    ["220101", "packed, 1 element"],
+  ])("describes %s by its field", (hex, text) => {
+    expect(describeAll(hex)).toEqual([text])
+  })
+
+  it.each([
+    ["0801", "1"],
+    ["08ffffffffffffffffff01", "18446744073709551615 (int64 -1)"],
+    ["0d0000803f", "1065353216 (float 1)"],
+    ["09000000000000f03f", "4607182418800017408 (double 1)"],
+    ["1203616263", '"abc"'],
+    ["1a020801", "message, 1 field"],
+    ["1a02ff00", "ff 00"],
+    ["1a00", "(empty)"],
+  ])("describes %s without a schema", (hex, text) => {
+    expect(describeAll(hex, {})).toEqual([text])
+  })
+
+  it("notes submessages beyond the depth limit", () => {
+    expect(describeAll("1a020805", { ...withSchema, maxDepth: 0 })).toEqual(["wl.Inner, not expanded"])
+  })
+})
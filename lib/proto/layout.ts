@@ -0,0 +1,304 @@
+import {
+  decodeVarint,
+  decodeVarint64,
+  expectedWireType,
+  formatEnumValue,
+  skipField,
+  zigZagDecode32,
+  zigZagDecode64,
+} from "./decoder"
+import { guessLengthDelimited, isValidMessage, type RawInterpretation } from "./raw"
+import { findEnum, findMessage, type ProtoField, type ProtoMessage, type ProtoSchema } from "./schema"
+import {
+  isPackableType,
+  SCALAR_WIRE_TYPES,
+  WIRE_TYPE_FIXED32,
+  WIRE_TYPE_FIXED64,
+  WIRE_TYPE_LENGTH_DELIMITED,
+  WIRE_TYPE_VARINT,
+} from "./wire"
+
+/** Where one record sits in the input. Offsets are absolute. */
+export interface WireRecord {
+  /** Path as the decoder reports it, or as raw mode does without a schema. */
+  path: string
+  fieldNumber: number
+  wireType: number
+  /** Schema field the record belongs to; absent for unknown fields and raw mode. */
+  field?: ProtoField
+  offset: number
+  /** Bytes taken by the tag; 0 for elements of a packed field, which have none. */
+  tagLength: number
+  /** Bytes taken by the length prefix; 0 unless length-delimited. */
+  lengthPrefix: number
+  valueOffset: number
+  valueLength: number
+  /** Records of a submessage, or the elements of a packed field. */
+  children: WireRecord[]
+  /** Tail of the payload after the last child that could be read. */
+  unreadable?: WireRegionError
+}
+
+/** A stretch of the input that could not be read as records. */
+export interface WireRegionError {
+  offset: number
+  end: number
+  /** Path of the record that failed, or of the enclosing message. */
+  path: string
+  reason: string
+}
+
+export interface WireLayout {
+  records: WireRecord[]
+  /** Tail of the input after the last top-level record that could be read. */
+  unreadable?: WireRegionError
+  /** Every unreadable region, nested ones included. */
+  errors: WireRegionError[]
+}
+
+export interface WireLayoutOptions {
+  /** Maps records to this message's fields; without it the walk guesses like raw mode. */
+  message?: ProtoMessage
+  schema?: ProtoSchema
+  /** Raw-mode interpretations by path, as chosen in raw mode. */
+  overrides?: Record<string, RawInterpretation>
+  maxDepth?: number
+}
+
+const joinPath = (path: string, name: string) => (path ? `${path}.${name}` : name)
+
+// Size of a packed element; a truncated varint runs one byte past the end of `data`
+const elementSize = (data: Uint8Array, offset: number, wireType: number) => {
+  if (wireType === WIRE_TYPE_FIXED64) return 8
+  if (wireType === WIRE_TYPE_FIXED32) return 4
+  let end = offset
+  while (end < data.length && data[end] & 0x80) end++
+  return end + 1 - offset
+}
+
+// Whether the decoder reads a record as its declared field; on a wire type
+// mismatch it keeps the record as an unknown field instead
+const matchesField = (field: ProtoField, wireType: number, schema: ProtoSchema) => {
+  const expected = expectedWireType(field, schema)
+  if (expected === undefined || expected === wireType) return true
+  const enumType = field.resolvedType ? findEnum(schema, field.resolvedType) : undefined
+  return wireType === WIRE_TYPE_LENGTH_DELIMITED && field.repeated && (!!enumType || isPackableType(field.type))
+}
+
+/**
+ * Maps every byte of the input to the record, and the tag, length prefix or
+ * value within it, that it belongs to. Submessages and packed fields are mapped
+ * recursively. A record that cannot be read ends its message and is reported as
+ * an unreadable region, as the decoder does.
+ */
+export function mapWireLayout(binaryData: ArrayBuffer, options: WireLayoutOptions = {}): WireLayout {
+  const { schema, overrides = {}, maxDepth = 64 } = options
+  const errors: WireRegionError[] = []
+
+  const walk = (
+    data: Uint8Array,
+    base: number,
+    message: ProtoMessage | undefined,
+    path: string,
+    depth: number,
+  ): { records: WireRecord[]; unreadable?: WireRegionError } => {
+    const records: WireRecord[] = []
+    // Occurrences so far of each field number, for indexing repeated fields
+    const counts = new Map<number, number>()
+    let offset = 0
+
+    while (offset < data.length) {
+      const start = offset
+      let recordPath = path
+      try {
+        const tag = decodeVarint(data, offset)
+        const fieldNumber = Math.floor(tag.value / 8)
+        const wireType = tag.value % 8
+        if (fieldNumber === 0) throw new Error("Field number 0 is not valid")
+        const declared = message?.fields.find((f) => f.number === fieldNumber)
+        const field = declared && schema && matchesField(declared, wireType, schema) ? declared : undefined
+        const occurrence = counts.get(fieldNumber) ?? 0
+
+        if (!message) {
+          recordPath = joinPath(path, `${fieldNumber}[${occurrence}]`)
+        } else if (!field) {
+          recordPath = joinPath(path, `#${fieldNumber}`)
+        } else {
+          recordPath = field.repeated ? `${joinPath(path, field.name)}[${occurrence}]` : joinPath(path, field.name)
+        }
+
+        const end = skipField(data, tag.newOffset, wireType)
+        const lengthPrefix =
+          wireType === WIRE_TYPE_LENGTH_DELIMITED ? decodeVarint(data, tag.newOffset).newOffset - tag.newOffset : 0
+        const valueOffset = tag.newOffset + lengthPrefix
+        if (end > data.length) {
+          throw new Error(
+            lengthPrefix > 0
+              ? `Length ${end - valueOffset} runs past the end of the data`
+              : "Unexpected end of data",
+          )
+        }
+
+        const record: WireRecord = {
+          path: recordPath,
+          fieldNumber,
+          wireType,
+          field,
+          offset: base + start,
+          tagLength: tag.newOffset - start,
+          lengthPrefix,
+          valueOffset: base + valueOffset,
+          valueLength: end - valueOffset,
+          children: [],
+        }
+        records.push(record)
+        counts.set(fieldNumber, occurrence + 1)
+        offset = end
+
+        if (wireType !== WIRE_TYPE_LENGTH_DELIMITED || depth + 1 > maxDepth) continue
+        const payload = data.subarray(valueOffset, end)
+
+        // Without a field to go by, payloads are read the way raw mode guesses them
+        if (!field || !schema) {
+          if ((overrides[recordPath] ?? guessLengthDelimited(payload).kind) === "message" && isValidMessage(payload)) {
+            record.children = walk(payload, base + valueOffset, undefined, recordPath, depth + 1).records
+          }
+          continue
+        }
+
+        const enumType = field.resolvedType ? findEnum(schema, field.resolvedType) : undefined
+        const messageType = field.resolvedType ? findMessage(schema, field.resolvedType) : undefined
+        if (field.repeated && (enumType || isPackableType(field.type))) {
+          // Packed elements continue the field's index and have no tags of their own
+          record.path = joinPath(path, field.name)
+          counts.set(fieldNumber, occurrence)
+          const elementWireType = enumType ? WIRE_TYPE_VARINT : SCALAR_WIRE_TYPES.get(field.type)!
+          for (let p = 0; p < payload.length; ) {
+            const size = elementSize(payload, p, elementWireType)
+            if (p + size > payload.length) {
+              record.unreadable = {
+                offset: base + valueOffset + p,
+                end: base + end,
+                path: record.path,
+                reason: `Packed ${field.type} element runs past the end of the field`,
+              }
+              errors.push(record.unreadable)
+              break
+            }
+            const index = counts.get(fieldNumber) ?? 0
+            counts.set(fieldNumber, index + 1)
+            record.children.push({
+              path: `${joinPath(path, field.name)}[${index}]`,
+              fieldNumber,
+              wireType: elementWireType,
+              field,
+              offset: base + valueOffset + p,
+              tagLength: 0,
+              lengthPrefix: 0,
+              valueOffset: base + valueOffset + p,
+              valueLength: size,
+              children: [],
+            })
+            p += size
+          }
+        } else if (messageType) {
+          const nested = walk(payload, base + valueOffset, messageType, recordPath, depth + 1)
+          record.children = nested.records
+          record.unreadable = nested.unreadable
+        }
+      } catch (err) {
+        const unreadable = {
+          offset: base + start,
+          end: base + data.length,
+          path: recordPath,
+          reason: err instanceof Error ? err.message : String(err),
+        }
+        errors.push(unreadable)
+        return { records, unreadable }
+      }
+    }
+    return { records }
+  }
+
+  return { ...walk(new Uint8Array(binaryData), 0, options.message, "", 0), errors }
+}
+
+const utf8 = new TextDecoder("utf-8", { fatal: true })
+
+const hexPreview = (bytes: Uint8Array, limit = 24) =>
+  Array.from(bytes.subarray(0, limit), (b) => b.toString(16).padStart(2, "0")).join(" ") +
+  (bytes.length > limit ? " …" : "")
+
+const quote = (text: string, limit = 64) => JSON.stringify(text.length > limit ? `${text.slice(0, limit)}…` : text)
+
+const describeVarint = (value: bigint, field: ProtoField | undefined, schema: ProtoSchema | undefined) => {
+  const enumType = field?.resolvedType && schema ? findEnum(schema, field.resolvedType) : undefined
+  if (enumType) return formatEnumValue(enumType, Number(BigInt.asIntN(32, value)))
+  switch (field?.type) {
+    case "bool":
+      return String(value !== BigInt(0))
+    case "sint32":
+      return String(zigZagDecode32(Number(BigInt.asUintN(32, value))))
+    case "sint64":
+      return String(zigZagDecode64(value))
+    case "int32":
+      return String(BigInt.asIntN(32, value))
+    case "uint32":
+      return String(BigInt.asUintN(32, value))
+    case "int64":
+      return String(BigInt.asIntN(64, value))
+    case undefined: {
+      // Without a type, show the signed reading too when it differs
+      const signed = BigInt.asIntN(64, value)
+      return signed < BigInt(0) ? `${value} (int64 ${signed})` : String(value)
+    }
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * Renders the value a record encodes as a short, single-line description, read
+ * by its schema field when it has one. Submessages and packed fields are
+ * summarised, since their children are listed separately.
+ */
+export function describeWireValue(binaryData: Uint8Array, record: WireRecord, schema?: ProtoSchema): string {
+  const { field } = record
+  const bytes = binaryData.subarray(record.valueOffset, record.valueOffset + record.valueLength)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  switch (record.wireType) {
+    case WIRE_TYPE_VARINT:
+      return describeVarint(decodeVarint64(bytes, 0).value, field, schema)
+    case WIRE_TYPE_FIXED64:
+      if (field?.type === "double") return String(view.getFloat64(0, true))
+      if (field?.type === "sfixed64") return String(view.getBigInt64(0, true))
+      if (field) return String(view.getBigUint64(0, true))
+      return `${view.getBigUint64(0, true)} (double ${view.getFloat64(0, true)})`
+    case WIRE_TYPE_FIXED32:
+      if (field?.type === "float") return String(view.getFloat32(0, true))
+      if (field?.type === "sfixed32") return String(view.getInt32(0, true))
+      if (field) return String(view.getUint32(0, true))
+      return `${view.getUint32(0, true)} (float ${view.getFloat32(0, true)})`
+  }
+
+  const packed = record.children.length > 0 && record.children[0].tagLength === 0
+  if (packed) return `packed, ${record.children.length} element${record.children.length === 1 ? "" : "s"}`
+  const messageType = field?.resolvedType && schema ? findMessage(schema, field.resolvedType) : undefined
+  if (messageType || record.children.length > 0 || record.unreadable) {
+    const type = messageType?.fullName ?? "message"
+    // A non-empty payload with nothing read from it lies beyond the depth limit
+    if (bytes.length > 0 && record.children.length === 0 && !record.unreadable) return `${type}, not expanded`
+    return `${type}, ${record.children.length} field${record.children.length === 1 ? "" : "s"}`
+  }
+  if (field?.type === "string") return quote(new TextDecoder().decode(bytes))
+  if (field?.type === "bytes" || bytes.length === 0) return hexPreview(bytes) || "(empty)"
+
+  try {
+    const text = utf8.decode(bytes)
+    if (guessLengthDelimited(bytes).kind === "string") return quote(text)
+  } catch {
+    // Not UTF-8, so shown as bytes
+  }
+  return hexPreview(bytes)
+}
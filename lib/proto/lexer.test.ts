@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { ProtoSyntaxError, tokenize } from "./lexer"
+
+const values = (source: string, textFormat = false) =>
+  tokenize(source, { textFormat }).map((token) => [token.type, token.value])
+
+describe("tokenize", () => {
+  it.each([
+    ["message Foo {}", [["ident", "message"], ["ident", "Foo"], ["symbol", "{"], ["symbol", "}"], ["eof", ""]]],
+    ["42 0x1F 017", [["int", "42"], ["int", "0x1F"], ["int", "017"], ["eof", ""]]],
+    ["1.5 .5 1e10 2E-3", [["float", "1.5"], ["float", ".5"], ["float", "1e10"], ["float", "2E-3"], ["eof", ""]]],
+    ['"a\\n\\x41\\101\\u00e9"', [["string", "a\nAAé"], ["eof", ""]]],
+    ["'single'", [["string", "single"], ["eof", ""]]],
+    ["a // comment\nb /* block\ncomment */ c", [["ident", "a"], ["ident", "b"], ["ident", "c"], ["eof", ""]]],
+  ])("tokenizes %j", (source, expected) => {
+    expect(values(source)).toEqual(expected)
+  })
+
+  it.each([
+    ["# comment\nfoo: 1.5f", [["ident", "foo"], ["symbol", ":"], ["float", "1.5"], ["eof", ""]]],
+    ["[a.com/b.C]", [["symbol", "["], ["ident", "a"], ["symbol", "."], ["ident", "com"], ["symbol", "/"],
+      ["ident", "b"], ["symbol", "."], ["ident", "C"], ["symbol", "]"], ["eof", ""]]],
+    ['"\\u00e9"', [["string", "Ã©"], ["eof", ""]]],
+  ])("tokenizes %j as text format", (source, expected) => {
+    expect(values(source, true)).toEqual(expected)
+  })
+
+  it("records where each token starts", () => {
+    const [first, second] = tokenize("foo\n  bar")
+    expect([first.line, first.column]).toEqual([1, 1])
+    expect([second.line, second.column]).toEqual([2, 3])
+  })
+
+  it.each([
+    ["0x", 'Hex literal "0x" has no digits (line 1, column 1)'],
+    ["x = 0X;", 'Hex literal "0X" has no digits (line 1, column 5)'],
+    ["12abc", 'Invalid numeric literal "12a" (line 1, column 1)'],
+    ['"open', "Unterminated string literal (line 1, column 1)"],
+    ['"line\nbreak"', "Unterminated string literal (line 1, column 1)"],
+    ['"\\q"', 'Invalid escape sequence "\\q" (line 1, column 3)'],
+    ['"\\xZZ"', "Invalid hex escape (line 1, column 4)"],
+    ['"\\u12"', "Invalid unicode escape (line 1, column 3)"],
+    ["/* never closed", "Unterminated block comment (line 1, column 1)"],
+    ["a @ b", 'Unexpected character "@" (line 1, column 3)'],
+    ["# not a comment", 'Unexpected character "#" (line 1, column 1)'],
+  ])("rejects %j", (source, message) => {
+    expect(() => tokenize(source)).toThrow(ProtoSyntaxError)
+    expect(() => tokenize(source)).toThrow(message)
+  })
+})
@@ -0,0 +1,228 @@
+export type TokenType = "ident" | "int" | "float" | "string" | "symbol" | "eof"
+
+export interface Token {
+  type: TokenType
+  value: string
+  line: number
+  column: number
+}
+
+export class ProtoSyntaxError extends Error {
+  line: number
+  column: number
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`)
+    this.name = "ProtoSyntaxError"
+    this.line = line
+    this.column = column
+  }
+}
+
+export interface TokenizeOptions {
+  /**
+   * Accept the text format's lexical extras: `#` line comments, an `f` suffix on
+   * float literals and `/` inside Any type URLs. Plain .proto files allow none of them.
+   * String literals are then returned as byte strings, one char per byte, since
+   * their escapes spell out raw bytes rather than characters.
+   */
+  textFormat?: boolean
+}
+
+const SYMBOLS = new Set([";", "{", "}", "[", "]", "(", ")", "<", ">", "=", ",", ".", ":", "-", "+"])
+
+const isIdentStart = (ch: string) => /[A-Za-z_]/.test(ch)
+const isIdentPart = (ch: string) => /[A-Za-z0-9_]/.test(ch)
+const isDigit = (ch: string) => ch >= "0" && ch <= "9"
+
+const utf8Encoder = new TextEncoder()
+const toByteString = (text: string) => String.fromCharCode(...utf8Encoder.encode(text))
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  a: "\x07",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+  "?": "?",
+}
+
+/**
+ * Splits .proto source into tokens. Comments and whitespace are dropped; string
+ * literals are returned unescaped and adjacent literals are left for the parser to
+ * concatenate.
+ */
+export function tokenize(source: string, options: TokenizeOptions = {}): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+  let line = 1
+  let column = 1
+
+  const advance = (count = 1) => {
+    for (let i = 0; i < count; i++) {
+      if (source[pos] === "\n") {
+        line++
+        column = 1
+      } else {
+        column++
+      }
+      pos++
+    }
+  }
+
+  while (pos < source.length) {
+    const ch = source[pos]
+    const next = source[pos + 1]
+
+    if (/\s/.test(ch)) {
+      advance()
+      continue
+    }
+
+    // Line comments
+    if ((ch === "/" && next === "/") || (ch === "#" && options.textFormat)) {
+      while (pos < source.length && source[pos] !== "\n") advance()
+      continue
+    }
+
+    // Block comments
+    if (ch === "/" && next === "*") {
+      const startLine = line
+      const startColumn = column
+      advance(2)
+      while (pos < source.length && !(source[pos] === "*" && source[pos + 1] === "/")) advance()
+      if (pos >= source.length) {
+        throw new ProtoSyntaxError("Unterminated block comment", startLine, startColumn)
+      }
+      advance(2)
+      continue
+    }
+
+    const startLine = line
+    const startColumn = column
+
+    if (isIdentStart(ch)) {
+      let value = ""
+      while (pos < source.length && isIdentPart(source[pos])) {
+        value += source[pos]
+        advance()
+      }
+      tokens.push({ type: "ident", value, line: startLine, column: startColumn })
+      continue
+    }
+
+    if (isDigit(ch) || (ch === "." && next !== undefined && isDigit(next))) {
+      let value = ""
+      let isFloat = false
+
+      if (ch === "0" && (next === "x" || next === "X")) {
+        value = source.slice(pos, pos + 2)
+        advance(2)
+        while (pos < source.length && /[0-9A-Fa-f]/.test(source[pos])) {
+          value += source[pos]
+          advance()
+        }
+        if (value.length === 2) {
+          throw new ProtoSyntaxError(`Hex literal "${value}" has no digits`, startLine, startColumn)
+        }
+      } else {
+        while (pos < source.length && /[0-9.eE]/.test(source[pos])) {
+          const c = source[pos]
+          if (c === "." || c === "e" || c === "E") isFloat = true
+          value += c
+          advance()
+          if ((c === "e" || c === "E") && (source[pos] === "+" || source[pos] === "-")) {
+            value += source[pos]
+            advance()
+          }
+        }
+      }
+
+      // 1.5f; hex literals never get here as "f" is one of their digits
+      if (options.textFormat && (source[pos] === "f" || source[pos] === "F") && !isIdentPart(source[pos + 1] ?? "")) {
+        isFloat = true
+        advance()
+      }
+
+      if (pos < source.length && isIdentStart(source[pos])) {
+        throw new ProtoSyntaxError(`Invalid numeric literal "${value}${source[pos]}"`, startLine, startColumn)
+      }
+
+      tokens.push({ type: isFloat ? "float" : "int", value, line: startLine, column: startColumn })
+      continue
+    }
+
+    if (ch === '"' || ch === "'") {
+      const quote = ch
+      const text = (chars: string) => (options.textFormat ? toByteString(chars) : chars)
+      let value = ""
+      advance()
+      while (pos < source.length && source[pos] !== quote) {
+        if (source[pos] === "\n") {
+          throw new ProtoSyntaxError("Unterminated string literal", startLine, startColumn)
+        }
+        if (source[pos] === "\\") {
+          advance()
+          const esc = source[pos]
+          if (esc === undefined) break
+          if (esc in SIMPLE_ESCAPES) {
+            value += SIMPLE_ESCAPES[esc]
+            advance()
+          } else if (esc === "x" || esc === "X") {
+            advance()
+            let hex = ""
+            while (hex.length < 2 && /[0-9A-Fa-f]/.test(source[pos] ?? "")) {
+              hex += source[pos]
+              advance()
+            }
+            if (!hex) throw new ProtoSyntaxError("Invalid hex escape", line, column)
+            value += String.fromCharCode(Number.parseInt(hex, 16))
+          } else if (/[0-7]/.test(esc)) {
+            let oct = ""
+            while (oct.length < 3 && /[0-7]/.test(source[pos] ?? "")) {
+              oct += source[pos]
+              advance()
+            }
+            value += String.fromCharCode(Number.parseInt(oct, 8))
+          } else if (esc === "u" || esc === "U") {
+            const width = esc === "u" ? 4 : 8
+            const hex = source.slice(pos + 1, pos + 1 + width)
+            if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== width) {
+              throw new ProtoSyntaxError("Invalid unicode escape", line, column)
+            }
+            value += text(String.fromCodePoint(Number.parseInt(hex, 16)))
+            advance(width + 1)
+          } else {
+            throw new ProtoSyntaxError(`Invalid escape sequence "\\${esc}"`, line, column)
+          }
+          continue
+        }
+        const char = String.fromCodePoint(source.codePointAt(pos)!)
+        value += text(char)
+        advance(char.length)
+      }
+      if (pos >= source.length) {
+        throw new ProtoSyntaxError("Unterminated string literal", startLine, startColumn)
+      }
+      advance()
+      tokens.push({ type: "string", value, line: startLine, column: startColumn })
+      continue
+    }
+
+    if (SYMBOLS.has(ch) || (ch === "/" && options.textFormat)) {
+      advance()
+      tokens.push({ type: "symbol", value: ch, line: startLine, column: startColumn })
+      continue
+    }
+
+    throw new ProtoSyntaxError(`Unexpected character "${ch}"`, startLine, startColumn)
+  }
+
+  tokens.push({ type: "eof", value: "", line, column })
+  return tokens
+}
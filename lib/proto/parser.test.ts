@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest"
+import { ProtoSyntaxError } from "./lexer"
+import { MAX_FIELD_NUMBER, parseIntLiteral, parseProto } from "./parser"
+
+describe("parseIntLiteral", () => {
+  it.each([
+    ["0", 0],
+    ["42", 42],
+    ["0x1F", 31],
+    ["0XfF", 255],
+    ["017", 15],
+  ])("reads %s as %d", (text, value) => {
+    expect(parseIntLiteral(text)).toBe(value)
+  })
+})
+
+describe("parseProto", () => {
+  it("reads the file header", () => {
+    const file = parseProto(`
+      syntax = "proto3";
+      package a.b;
+      import "x.proto";
+      import public "y.proto";
+      option java_package = "com.example";
+    `)
+    expect(file.syntax).toBe("proto3")
+    expect(file.package).toBe("a.b")
+    expect(file.imports.map((i) => [i.path, i.modifier])).toEqual([
+      ["x.proto", undefined],
+      ["y.proto", "public"],
+    ])
+    expect(file.options).toEqual([{ name: "java_package", value: "com.example" }])
+  })
+
+  it("defaults to proto2 and reads editions", () => {
+    expect(parseProto("message A {}").syntax).toBe("proto2")
+    expect(parseProto('edition = "2023";').syntax).toBe("editions/2023")
+  })
+
+  it("reads fields, maps, oneofs and their positions", () => {
+    const [message] = parseProto(`syntax = "proto3";
+message M {
+  repeated int32 values = 1 [packed = false];
+  map<string, .pkg.V> entries = 2;
+  oneof choice {
+    string text = 3;
+    bytes raw = 4;
+  }
+}`).messages
+    expect(message.fields).toEqual([
+      {
+        kind: "field",
+        name: "values",
+        type: "int32",
+        number: 1,
+        label: "repeated",
+        options: [{ name: "packed", value: false }],
+        line: 3,
+        column: 3,
+      },
+      {
+        kind: "map",
+        name: "entries",
+        keyType: "string",
+        valueType: ".pkg.V",
+        number: 2,
+        options: [],
+        line: 4,
+        column: 3,
+      },
+    ])
+    expect(message.oneofs.map((o) => [o.name, o.fields.map((f) => [f.name, f.line])])).toEqual([
+      ["choice", [["text", 6], ["raw", 7]]],
+    ])
+  })
+
+  it("treats keywords as names where a declaration cannot start", () => {
+    const [message] = parseProto("message M { string message = 1; optional int32 map = 2; enum enum = 3; }").messages
+    expect(message.fields.map((f) => [f.name, f.kind === "field" && f.type])).toEqual([
+      ["message", "string"],
+      ["map", "int32"],
+      ["enum", "enum"],
+    ])
+  })
+
+  it("reads enums, reserved ranges, extensions and nested declarations", () => {
+    const [message] = parseProto(`
+      message M {
+        enum E { option allow_alias = true; A = 0; B = -1 [deprecated = true]; reserved 5 to 7; }
+        message N {}
+        reserved 2, 9 to max;
+        reserved "old";
+        extensions 100 to 199;
+      }
+    `).messages
+    expect(message.enums[0].values.map((v) => [v.name, v.number])).toEqual([
+      ["A", 0],
+      ["B", -1],
+    ])
+    expect(message.enums[0].reserved[0].ranges).toEqual([{ start: 5, end: 7 }])
+    expect(message.messages.map((m) => m.name)).toEqual(["N"])
+    expect(message.reserved).toEqual([
+      { ranges: [{ start: 2, end: 2 }, { start: 9, end: MAX_FIELD_NUMBER }], names: [] },
+      { ranges: [], names: ["old"] },
+    ])
+    expect(message.extensions[0].ranges).toEqual([{ start: 100, end: 199 }])
+  })
+
+  it("reads services and streaming rpcs", () => {
+    const [service] = parseProto(`
+      service S {
+        rpc Get (Req) returns (Res);
+        rpc Watch (stream Req) returns (stream Res) { option deprecated = true; }
+      }
+    `).services
+    expect(service.rpcs.map((r) => [r.name, r.requestStream, r.responseStream, r.options.length])).toEqual([
+      ["Get", false, false, 0],
+      ["Watch", true, true, 1],
+    ])
+  })
+
+  it.each([
+    ["0x1F", 31],
+    ["-0x10", -16],
+    ["1.5", 1.5],
+    ["-inf", -Infinity],
+    ["true", true],
+    ["FOO.BAR", "FOO.BAR"],
+    ['"a" "b"', "ab"],
+  ])("reads the option constant %s", (source, value) => {
+    expect(parseProto(`option x = ${source};`).options[0].value).toEqual(value)
+  })
+
+  it("reads aggregate options without consulting the prototype", () => {
+    const [option] = parseProto("option (x) = { constructor: 1 toString: 2 toString: 3 nested { a: [1, 2] } };").options
+    expect(option.name).toBe("(x)")
+    expect(option.value).toEqual({ constructor: 1, toString: [2, 3], nested: { a: [1, 2] } })
+  })
+
+  it.each([
+    ['syntax = "proto4";', 'Unsupported syntax "proto4" (line 1, column 10)'],
+    ['package a; syntax = "proto3";', '"syntax" must be the first statement in the file (line 1, column 12)'],
+    ["package a; package b;", "Multiple package declarations (line 1, column 12)"],
+    ["message M { int32 a = 0; }", "Field number 0 is out of range (line 1, column 23)"],
+    ["message M { int32 a = 536870912; }", "Field number 536870912 is out of range (line 1, column 23)"],
+    ["message M { int32 a = 1 }", 'Expected ";" but found "}" (line 1, column 25)'],
+    ["message M {", 'Expected "}" to close message M (line 1, column 12)'],
+    ["message M { int32 a = 0x; }", 'Hex literal "0x" has no digits (line 1, column 23)'],
+    [
+      "message M { optional group Result = 1 { int32 a = 2; } }",
+      'Group "Result" is not supported; declare a nested message and a field of its type instead (line 1, column 22)',
+    ],
+    [
+      "message M { oneof o { group Result = 1 {} } }",
+      'Group "Result" is not supported; declare a nested message and a field of its type instead (line 1, column 23)',
+    ],
+    ["service S { int32 a = 1; }", 'Unexpected "int32" in service S (line 1, column 13)'],
+    ["42", 'Unexpected "42" (line 1, column 1)'],
+  ])("rejects %j", (source, message) => {
+    expect(() => parseProto(source)).toThrow(ProtoSyntaxError)
+    expect(() => parseProto(source)).toThrow(message)
+  })
+})
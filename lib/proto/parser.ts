@@ -0,0 +1,564 @@
+import { tokenize, ProtoSyntaxError, type Token } from "./lexer"
+import type {
+  EnumNode,
+  EnumValueNode,
+  ExtendNode,
+  ExtensionsNode,
+  FieldLabel,
+  FieldNode,
+  MapFieldNode,
+  MessageNode,
+  OneofNode,
+  OptionAggregate,
+  OptionNode,
+  OptionValue,
+  ProtoFileNode,
+  RangeNode,
+  ReservedNode,
+  RpcNode,
+  ServiceNode,
+} from "./ast"
+
+export const MAX_FIELD_NUMBER = 536870911
+
+const LABELS = new Set(["optional", "repeated", "required"])
+
+export const parseIntLiteral = (text: string): number => {
+  if (/^0[xX]/.test(text)) return Number.parseInt(text.slice(2), 16)
+  if (/^0[0-7]+$/.test(text)) return Number.parseInt(text.slice(1), 8)
+  return Number.parseInt(text, 10)
+}
+
+const emptyMessage = (name: string, line: number): MessageNode => ({
+  name,
+  fields: [],
+  oneofs: [],
+  messages: [],
+  enums: [],
+  extends: [],
+  reserved: [],
+  extensions: [],
+  options: [],
+  line,
+})
+
+/**
+ * Recursive-descent parser for proto2/proto3 source files. Throws a
+ * ProtoSyntaxError pointing at the offending token on malformed input rather than
+ * skipping what it does not understand.
+ */
+export function parseProto(source: string): ProtoFileNode {
+  const tokens = tokenize(source)
+  let pos = 0
+
+  const file: ProtoFileNode = {
+    syntax: "proto2",
+    package: "",
+    imports: [],
+    options: [],
+    messages: [],
+    enums: [],
+    services: [],
+    extends: [],
+  }
+
+  const peek = (ahead = 0): Token => tokens[Math.min(pos + ahead, tokens.length - 1)]
+
+  const fail = (message: string, token: Token = peek()): never => {
+    throw new ProtoSyntaxError(message, token.line, token.column)
+  }
+
+  const describe = (token: Token) => (token.type === "eof" ? "end of file" : `"${token.value}"`)
+
+  const next = (): Token => {
+    const token = peek()
+    if (token.type !== "eof") pos++
+    return token
+  }
+
+  const isSymbol = (value: string, ahead = 0) => {
+    const token = peek(ahead)
+    return token.type === "symbol" && token.value === value
+  }
+
+  const isIdent = (value?: string, ahead = 0) => {
+    const token = peek(ahead)
+    return token.type === "ident" && (value === undefined || token.value === value)
+  }
+
+  const consumeSymbol = (value: string) => {
+    if (isSymbol(value)) {
+      pos++
+      return true
+    }
+    return false
+  }
+
+  const expectSymbol = (value: string) => {
+    if (!consumeSymbol(value)) fail(`Expected "${value}" but found ${describe(peek())}`)
+  }
+
+  const expectIdent = (what = "identifier"): string => {
+    const token = peek()
+    if (token.type !== "ident") fail(`Expected ${what} but found ${describe(token)}`)
+    pos++
+    return token.value
+  }
+
+  const expectKeyword = (keyword: string) => {
+    if (!isIdent(keyword)) fail(`Expected "${keyword}" but found ${describe(peek())}`)
+    pos++
+  }
+
+  const parseFullIdent = (): string => {
+    let name = expectIdent()
+    while (isSymbol(".")) {
+      pos++
+      name += "." + expectIdent()
+    }
+    return name
+  }
+
+  // Message and enum type references may be fully qualified with a leading dot.
+  const parseTypeName = (): string => {
+    let prefix = ""
+    if (consumeSymbol(".")) prefix = "."
+    return prefix + parseFullIdent()
+  }
+
+  const parseStringLiteral = (): string => {
+    const token = peek()
+    if (token.type !== "string") fail(`Expected string literal but found ${describe(token)}`)
+    let value = ""
+    while (peek().type === "string") value += next().value
+    return value
+  }
+
+  const parseInteger = (allowSign = false): number => {
+    let sign = 1
+    if (allowSign && isSymbol("-")) {
+      pos++
+      sign = -1
+    } else if (allowSign && isSymbol("+")) {
+      pos++
+    }
+    const token = peek()
+    if (token.type !== "int") fail(`Expected integer but found ${describe(token)}`)
+    pos++
+    return sign * parseIntLiteral(token.value)
+  }
+
+  const parseFieldNumber = (): number => {
+    const token = peek()
+    const number = parseInteger()
+    if (number < 1 || number > MAX_FIELD_NUMBER) fail(`Field number ${number} is out of range`, token)
+    return number
+  }
+
+  const parseAggregate = (close: string): OptionAggregate => {
+    // No prototype, so option names such as `constructor` are not found before they are set
+    const aggregate: OptionAggregate = Object.create(null)
+    while (!consumeSymbol(close)) {
+      if (peek().type === "eof") fail(`Expected "${close}" but found end of file`)
+      let key: string
+      if (consumeSymbol("[")) {
+        key = `[${parseTypeName()}]`
+        expectSymbol("]")
+      } else {
+        key = expectIdent("field name")
+      }
+      const hasColon = consumeSymbol(":")
+      let value: OptionValue
+      if (isSymbol("{") || isSymbol("<")) {
+        value = parseAggregate(next().value === "{" ? "}" : ">")
+      } else if (!hasColon) {
+        value = fail(`Expected ":" after "${key}"`)
+      } else if (consumeSymbol("[")) {
+        const list: OptionValue[] = []
+        while (!consumeSymbol("]")) {
+          list.push(isSymbol("{") || isSymbol("<") ? parseAggregate(next().value === "{" ? "}" : ">") : parseConstant())
+          if (!isSymbol("]")) expectSymbol(",")
+        }
+        value = list
+      } else {
+        value = parseConstant()
+      }
+
+      // Repeated keys accumulate into a list, as in text format.
+      if (Object.hasOwn(aggregate, key)) {
+        const existing = aggregate[key]
+        aggregate[key] = Array.isArray(existing) ? [...existing, value] : [existing, value]
+      } else {
+        aggregate[key] = value
+      }
+      if (!consumeSymbol(",")) consumeSymbol(";")
+    }
+    return aggregate
+  }
+
+  function parseConstant(): OptionValue {
+    const token = peek()
+    if (token.type === "string") return parseStringLiteral()
+    if (consumeSymbol("{")) return parseAggregate("}")
+
+    let sign = 1
+    if (isSymbol("-") || isSymbol("+")) {
+      sign = next().value === "-" ? -1 : 1
+    }
+    const valueToken = next()
+    switch (valueToken.type) {
+      case "int":
+        return sign * parseIntLiteral(valueToken.value)
+      case "float":
+        return sign * Number.parseFloat(valueToken.value)
+      case "ident": {
+        if (valueToken.value === "inf") return sign * Infinity
+        if (valueToken.value === "nan") return Number.NaN
+        if (sign === -1) fail(`Unexpected "-" before "${valueToken.value}"`, token)
+        if (valueToken.value === "true") return true
+        if (valueToken.value === "false") return false
+        let name = valueToken.value
+        while (isSymbol(".")) {
+          pos++
+          name += "." + expectIdent()
+        }
+        return name
+      }
+      default:
+        return fail(`Expected constant but found ${describe(valueToken)}`, valueToken)
+    }
+  }
+
+  const parseOptionName = (): string => {
+    let name = ""
+    const parsePart = () => {
+      if (consumeSymbol("(")) {
+        name += `(${parseTypeName()})`
+        expectSymbol(")")
+      } else {
+        name += expectIdent("option name")
+      }
+    }
+    parsePart()
+    while (consumeSymbol(".")) {
+      name += "."
+      parsePart()
+    }
+    return name
+  }
+
+  // option foo = value;
+  const parseOptionStatement = (): OptionNode => {
+    expectKeyword("option")
+    const name = parseOptionName()
+    expectSymbol("=")
+    const value = parseConstant()
+    expectSymbol(";")
+    return { name, value }
+  }
+
+  // [foo = value, bar = value]
+  const parseCompactOptions = (): OptionNode[] => {
+    const options: OptionNode[] = []
+    if (!consumeSymbol("[")) return options
+    do {
+      const name = parseOptionName()
+      expectSymbol("=")
+      options.push({ name, value: parseConstant() })
+    } while (consumeSymbol(","))
+    expectSymbol("]")
+    return options
+  }
+
+  const parseRanges = (): RangeNode[] => {
+    const ranges: RangeNode[] = []
+    do {
+      const start = parseInteger(true)
+      let end = start
+      if (isIdent("to")) {
+        pos++
+        if (isIdent("max")) {
+          pos++
+          end = MAX_FIELD_NUMBER
+        } else {
+          end = parseInteger(true)
+        }
+      }
+      ranges.push({ start, end })
+    } while (consumeSymbol(","))
+    return ranges
+  }
+
+  const parseReserved = (): ReservedNode => {
+    expectKeyword("reserved")
+    const reserved: ReservedNode = { ranges: [], names: [] }
+    if (peek().type === "string" || peek().type === "ident") {
+      do {
+        reserved.names.push(peek().type === "string" ? parseStringLiteral() : expectIdent())
+      } while (consumeSymbol(","))
+    } else {
+      reserved.ranges = parseRanges()
+    }
+    expectSymbol(";")
+    return reserved
+  }
+
+  const parseExtensions = (): ExtensionsNode => {
+    expectKeyword("extensions")
+    const ranges = parseRanges()
+    const options = parseCompactOptions()
+    expectSymbol(";")
+    return { ranges, options }
+  }
+
+  const parseEnum = (): EnumNode => {
+    const line = peek().line
+    expectKeyword("enum")
+    const node: EnumNode = { name: expectIdent("enum name"), values: [], options: [], reserved: [], line }
+    expectSymbol("{")
+    while (!consumeSymbol("}")) {
+      if (peek().type === "eof") fail(`Expected "}" to close enum ${node.name}`)
+      if (consumeSymbol(";")) continue
+      if (isIdent("option") && !isSymbol("=", 1)) {
+        node.options.push(parseOptionStatement())
+      } else if (isIdent("reserved") && !isSymbol("=", 1)) {
+        node.reserved.push(parseReserved())
+      } else {
+        const valueLine = peek().line
+        const name = expectIdent("enum value name")
+        expectSymbol("=")
+        const value: EnumValueNode = { name, number: parseInteger(true), options: [], line: valueLine }
+        value.options = parseCompactOptions()
+        expectSymbol(";")
+        node.values.push(value)
+      }
+    }
+    return node
+  }
+
+  const parseMapField = (): MapFieldNode => {
+    const { line, column } = peek()
+    expectKeyword("map")
+    expectSymbol("<")
+    const keyType = expectIdent("map key type")
+    expectSymbol(",")
+    const valueType = parseTypeName()
+    expectSymbol(">")
+    const name = expectIdent("field name")
+    expectSymbol("=")
+    const number = parseFieldNumber()
+    const options = parseCompactOptions()
+    expectSymbol(";")
+    return { kind: "map", name, keyType, valueType, number, options, line, column }
+  }
+
+  // Parses a (possibly labelled) field. Proto2 groups are rejected: their records
+  // use the start- and end-group wire types, which the decoder does not read.
+  const parseField = (allowLabel = true): FieldNode => {
+    const { line, column } = peek()
+    let label: FieldLabel | undefined
+    if (allowLabel && isIdent() && LABELS.has(peek().value) && !isSymbol("=", 1)) {
+      label = next().value as FieldLabel
+    }
+
+    if (isIdent("group") && /^[A-Z]/.test(peek(1).value) && isSymbol("=", 2)) {
+      fail(`Group "${peek(1).value}" is not supported; declare a nested message and a field of its type instead`)
+    }
+
+    const type = parseTypeName()
+    const name = expectIdent("field name")
+    expectSymbol("=")
+    const number = parseFieldNumber()
+    const options = parseCompactOptions()
+    expectSymbol(";")
+    return { kind: "field", name, type, number, label, options, line, column }
+  }
+
+  const parseOneof = (): OneofNode => {
+    const line = peek().line
+    expectKeyword("oneof")
+    const oneof: OneofNode = { name: expectIdent("oneof name"), fields: [], options: [], line }
+    expectSymbol("{")
+    while (!consumeSymbol("}")) {
+      if (peek().type === "eof") fail(`Expected "}" to close oneof ${oneof.name}`)
+      if (consumeSymbol(";")) continue
+      if (isIdent("option")) {
+        oneof.options.push(parseOptionStatement())
+      } else {
+        oneof.fields.push(parseField(false))
+      }
+    }
+    return oneof
+  }
+
+  const parseExtend = (): ExtendNode => {
+    const line = peek().line
+    expectKeyword("extend")
+    const node: ExtendNode = { extendee: parseTypeName(), fields: [], line }
+    expectSymbol("{")
+    while (!consumeSymbol("}")) {
+      if (peek().type === "eof") fail(`Expected "}" to close extend ${node.extendee}`)
+      if (consumeSymbol(";")) continue
+      node.fields.push(parseField())
+    }
+    return node
+  }
+
+  // A keyword only starts a declaration when followed by a name; otherwise it is
+  // being used as a type or field name (e.g. `string message = 1;`).
+  const startsDeclaration = (keyword: string) => isIdent(keyword) && isIdent(undefined, 1) && isSymbol("{", 2)
+
+  function parseMessageBody(message: MessageNode) {
+    expectSymbol("{")
+    while (!consumeSymbol("}")) {
+      if (peek().type === "eof") fail(`Expected "}" to close message ${message.name}`)
+      if (consumeSymbol(";")) continue
+
+      if (startsDeclaration("message")) {
+        message.messages.push(parseMessage())
+      } else if (startsDeclaration("enum")) {
+        message.enums.push(parseEnum())
+      } else if (startsDeclaration("oneof")) {
+        message.oneofs.push(parseOneof())
+      } else if (isIdent("extend") && !isSymbol("=", 2)) {
+        message.extends.push(parseExtend())
+      } else if (isIdent("option")) {
+        message.options.push(parseOptionStatement())
+      } else if (isIdent("reserved") && !isSymbol("=", 2)) {
+        message.reserved.push(parseReserved())
+      } else if (isIdent("extensions") && !isSymbol("=", 2)) {
+        message.extensions.push(parseExtensions())
+      } else if (isIdent("map") && isSymbol("<", 1)) {
+        message.fields.push(parseMapField())
+      } else {
+        message.fields.push(parseField())
+      }
+    }
+  }
+
+  function parseMessage(): MessageNode {
+    const line = peek().line
+    expectKeyword("message")
+    const message = emptyMessage(expectIdent("message name"), line)
+    parseMessageBody(message)
+    return message
+  }
+
+  const parseRpc = (): RpcNode => {
+    const line = peek().line
+    expectKeyword("rpc")
+    const name = expectIdent("rpc name")
+
+    const parseStreamType = (): [string, boolean] => {
+      expectSymbol("(")
+      let stream = false
+      if (isIdent("stream") && !isSymbol(")", 1)) {
+        pos++
+        stream = true
+      }
+      const type = parseTypeName()
+      expectSymbol(")")
+      return [type, stream]
+    }
+
+    const [requestType, requestStream] = parseStreamType()
+    expectKeyword("returns")
+    const [responseType, responseStream] = parseStreamType()
+    const rpc: RpcNode = { name, requestType, requestStream, responseType, responseStream, options: [], line }
+
+    if (consumeSymbol("{")) {
+      while (!consumeSymbol("}")) {
+        if (peek().type === "eof") fail(`Expected "}" to close rpc ${name}`)
+        if (consumeSymbol(";")) continue
+        rpc.options.push(parseOptionStatement())
+      }
+    } else {
+      expectSymbol(";")
+    }
+    return rpc
+  }
+
+  const parseService = (): ServiceNode => {
+    const line = peek().line
+    expectKeyword("service")
+    const service: ServiceNode = { name: expectIdent("service name"), rpcs: [], options: [], line }
+    expectSymbol("{")
+    while (!consumeSymbol("}")) {
+      if (peek().type === "eof") fail(`Expected "}" to close service ${service.name}`)
+      if (consumeSymbol(";")) continue
+      if (isIdent("option")) {
+        service.options.push(parseOptionStatement())
+      } else if (isIdent("rpc")) {
+        service.rpcs.push(parseRpc())
+      } else {
+        fail(`Unexpected ${describe(peek())} in service ${service.name}`)
+      }
+    }
+    return service
+  }
+
+  const parseSyntax = () => {
+    const keyword = next()
+    expectSymbol("=")
+    const token = peek()
+    const value = parseStringLiteral()
+    if (keyword.value === "syntax" && value !== "proto2" && value !== "proto3") {
+      fail(`Unsupported syntax "${value}"`, token)
+    }
+    file.syntax = keyword.value === "edition" ? `editions/${value}` : value
+    expectSymbol(";")
+  }
+
+  if (isIdent("syntax") || isIdent("edition")) {
+    parseSyntax()
+  }
+
+  while (peek().type !== "eof") {
+    if (consumeSymbol(";")) continue
+
+    const token = peek()
+    if (token.type !== "ident") fail(`Unexpected ${describe(token)}`)
+
+    switch (token.value) {
+      case "import": {
+        pos++
+        let modifier: "public" | "weak" | undefined
+        if (isIdent("public") || isIdent("weak")) {
+          modifier = next().value as "public" | "weak"
+        }
+        file.imports.push({ path: parseStringLiteral(), modifier, line: token.line })
+        expectSymbol(";")
+        break
+      }
+      case "package":
+        pos++
+        if (file.package) fail("Multiple package declarations", token)
+        file.package = parseFullIdent()
+        expectSymbol(";")
+        break
+      case "option":
+        file.options.push(parseOptionStatement())
+        break
+      case "message":
+        file.messages.push(parseMessage())
+        break
+      case "enum":
+        file.enums.push(parseEnum())
+        break
+      case "service":
+        file.services.push(parseService())
+        break
+      case "extend":
+        file.extends.push(parseExtend())
+        break
+      case "syntax":
+      case "edition":
+        fail(`"${token.value}" must be the first statement in the file`, token)
+        break
+      default:
+        fail(`Unexpected ${describe(token)}`, token)
+    }
+  }
+
+  return file
+}
@@ -0,0 +1,108 @@
+import type { DecodedData, DecodeError, DecodeOptions } from "./decoder"
+import type { RawInterpretation } from "./raw"
+import type { WorkspaceFile } from "./workspace"
+
+/** Describes exactly what produced a decode, so an export can be traced back to it. */
+export interface Provenance {
+  source: {
+    name: string
+    size: number
+    /** SHA-256 of the input bytes, hex-encoded. */
+    sha256: string
+  }
+  /** Absent for decodes made without a schema. */
+  schema?: {
+    message: string
+    package: string
+    /** Every file in the workspace, bundled well-known types included. */
+    files: { path: string; sha256: string }[]
+  }
+  options: DecodeOptions & { raw?: boolean; overrides?: Record<string, RawInterpretation> }
+  warnings: string[]
+  errors: DecodeError[]
+  decodedAt: string
+}
+
+/** Exported form of a decode: the message JSON kept apart from its provenance. */
+export interface DecodeEnvelope {
+  metadata: Provenance
+  data: DecodedData
+}
+
+// crypto.subtle only exists in secure contexts: HTTPS pages and localhost
+export const sha256Hex = async (data: ArrayBuffer | string): Promise<string> => {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error("SHA-256 hashing is only available over HTTPS or on localhost")
+  }
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data
+  const digest = await crypto.subtle.digest("SHA-256", bytes)
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+/** What a decode was made from, before any of it is hashed. */
+export interface ProvenanceInput {
+  source: { name: string; content: ArrayBuffer }
+  schema?: { message: string; package: string; files: WorkspaceFile[] }
+  options: Provenance["options"]
+  warnings: string[]
+  errors: DecodeError[]
+}
+
+export async function buildProvenance(input: ProvenanceInput): Promise<Provenance> {
+  const { source, schema } = input
+  return {
+    source: { name: source.name, size: source.content.byteLength, sha256: await sha256Hex(source.content) },
+    schema: schema && {
+      message: schema.message,
+      package: schema.package,
+      files: await Promise.all(
+        schema.files.map(async (file) => ({ path: file.path, sha256: await sha256Hex(file.content) })),
+      ),
+    },
+    options: input.options,
+    warnings: input.warnings,
+    errors: input.errors,
+    decodedAt: new Date().toISOString(),
+  }
+}
+
+/** A provenance entry that does not match what is currently loaded. */
+export interface ProvenanceMismatch {
+  what: string
+  expected: string
+  actual: string
+}
+
+const isEnvelope = (value: any): value is DecodeEnvelope =>
+  typeof value === "object" && value !== null && typeof value.metadata?.source?.sha256 === "string"
+
+/**
+ * Checks an exported envelope against the binary and schema files currently
+ * loaded. An empty result means the export was produced from exactly these
+ * inputs, though possibly with different decoder options.
+ */
+export async function verifyProvenance(
+  exported: unknown,
+  binary: ArrayBuffer | null,
+  files: WorkspaceFile[],
+): Promise<ProvenanceMismatch[]> {
+  if (!isEnvelope(exported)) {
+    throw new Error("Not an export with provenance metadata; expected an object with metadata and data")
+  }
+  const { source, schema } = exported.metadata
+  const mismatches: ProvenanceMismatch[] = []
+
+  const binaryHash = binary ? await sha256Hex(binary) : "(no binary loaded)"
+  if (binaryHash !== source.sha256) {
+    mismatches.push({ what: `binary ${source.name}`, expected: source.sha256, actual: binaryHash })
+  }
+
+  for (const file of schema?.files ?? []) {
+    const loaded = files.find((f) => f.path === file.path)
+    const hash = loaded ? await sha256Hex(loaded.content) : "(not loaded)"
+    if (hash !== file.sha256) {
+      mismatches.push({ what: `schema file ${file.path}`, expected: file.sha256, actual: hash })
+    }
+  }
+  return mismatches
+}
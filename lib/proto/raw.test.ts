@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest"
+import { decodeRaw, guessLengthDelimited, interpretPayload, isValidMessage, type RawInterpretation } from "./raw"
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16))
+
+describe("isValidMessage", () => {
+  it.each([
+    ["0801", true],
+    ["0a0161", true],
+    ["", false],
+    ["0a05", false],
+    ["0b", false],
+    ["00", false],
+    ["ff", false],
+  ])("judges %j as %s", (hex, valid) => {
+    expect(isValidMessage(fromHex(hex))).toBe(valid)
+  })
+})
+
+describe("guessLengthDelimited", () => {
+  it.each([
+    ["", "string", "low", ["string", "message", "bytes"]],
+    ["616263", "string", "high", ["string", "packed", "bytes"]],
+    ["4869", "string", "medium", ["string", "message", "packed", "bytes"]],
+    ["0a0161", "message", "high", ["string", "message", "packed", "bytes"]],
+    ["0801", "message", "medium", ["string", "message", "packed", "bytes"]],
+    ["0102", "packed", "low", ["string", "packed", "bytes"]],
+    ["ff", "bytes", "high", ["bytes"]],
+  ])("reads %j as %s with %s confidence", (hex, kind, confidence, candidates) => {
+    expect(guessLengthDelimited(fromHex(hex))).toEqual({ kind, confidence, candidates })
+  })
+})
+
+describe("interpretPayload", () => {
+  it.each([
+    ["616263", "abc"],
+    ["0a0161", { 1: "a" }],
+    ["0102", [1, 2]],
+    ["ff", [255]],
+  ])("shows %j as %j", (hex, value) => {
+    expect(interpretPayload(fromHex(hex))).toEqual(value)
+  })
+})
+
+describe("decodeRaw", () => {
+  it.each([
+    ["0896011203616263", { 1: 150, 2: "abc" }],
+    ["08ffffffffffffffffff01", { 1: "18446744073709551615" }],
+    ["080108020803", { 1: [1, 2, 3] }],
+    ["0d010000001102000000000000ff", { 1: "0x00000001", 2: "0xff00000000000002" }],
+    ["1a020801", { 3: { 1: 1 } }],
+    ["1a00", { 3: "" }],
+  ])("decodes %s", (hex, data) => {
+    const result = decodeRaw(fromHex(hex).buffer)
+    expect(result.errors).toEqual([])
+    expect(result.data).toEqual(data)
+  })
+
+  it.each<[string, Record<string, RawInterpretation>, unknown, string[]]>([
+    ["1a020801", { "3[0]": "bytes" }, [8, 1], []],
+    ["1a020801", { "3[0]": "packed" }, [8, 1], []],
+    ["1a020801", { "3[0]": "string" }, "\b\u0001", []],
+    ["1a03616263", { "3[0]": "message" }, [97, 98, 99], ["3[0]: cannot be read as a message; showing bytes"]],
+    ["1a01ff", { "3[0]": "packed" }, [255], ["3[0]: cannot be read as packed varints; showing bytes"]],
+  ])("reads %s with overrides %j", (hex, overrides, value, warnings) => {
+    const result = decodeRaw(fromHex(hex).buffer, overrides)
+    expect(result.data).toEqual({ 3: value })
+    expect(result.warnings).toEqual(warnings)
+  })
+
+  it("lists records by path with offsets into the whole buffer", () => {
+    const { records } = decodeRaw(fromHex("08011a0408021003").buffer)
+    expect(records.map((r) => [r.path, r.fieldNumber, r.wireType, r.offset, r.length, r.interpretation])).toEqual([
+      ["1[0]", 1, 0, 0, undefined, undefined],
+      ["3[0]", 3, 2, 2, 4, "message"],
+      ["3[0].1[0]", 1, 0, 4, undefined, undefined],
+      ["3[0].2[0]", 2, 0, 6, undefined, undefined],
+    ])
+  })
+
+  it("shows nested messages beyond the depth limit as bytes", () => {
+    const result = decodeRaw(fromHex("1a021a00").buffer, {}, 1)
+    expect(result.data).toEqual({ 3: { 3: "" } })
+    expect(decodeRaw(fromHex("1a021a00").buffer, {}, 0).data).toEqual({ 3: [26, 0] })
+  })
+
+  it.each([
+    [
+      "0801 0a05616263",
+      { 1: 1 },
+      { offset: 2, path: "1[1]", wireType: 2, reason: "Length 5 runs past the end of the data" },
+    ],
+    ["0b", {}, { offset: 0, path: "1[0]", wireType: 3, reason: "Unsupported wire type 3" }],
+    ["0d0100", {}, { offset: 0, path: "1[0]", wireType: 5, reason: "Not enough data for 32-bit field" }],
+    ["1a0308", {}, { offset: 0, path: "3[0]", wireType: 2, reason: "Length 3 runs past the end of the data" }],
+  ])("stops at the broken record in %s", (hex, data, error) => {
+    const result = decodeRaw(fromHex(hex.replace(" ", "")).buffer)
+    expect(result.data).toEqual(data)
+    expect(result.errors).toEqual([error])
+  })
+})
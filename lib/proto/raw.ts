@@ -0,0 +1,271 @@
+import { decodeVarint, decodeVarint64, format64, skipField, type DecodedData, type DecodeError } from "./decoder"
+import {
+  WIRE_TYPE_FIXED32,
+  WIRE_TYPE_FIXED64,
+  WIRE_TYPE_LENGTH_DELIMITED,
+  WIRE_TYPE_VARINT,
+} from "./wire"
+
+export type RawInterpretation = "string" | "message" | "packed" | "bytes"
+
+export type RawConfidence = "high" | "medium" | "low"
+
+export interface RawGuess {
+  kind: RawInterpretation
+  confidence: RawConfidence
+  /** Every interpretation the payload is structurally valid as. */
+  candidates: RawInterpretation[]
+}
+
+export interface RawRecord {
+  /** Stable identifier for the record, e.g. `2[0].1[1]`; used as the override key. */
+  path: string
+  fieldNumber: number
+  wireType: number
+  /** Offset of the record's tag within the top-level buffer. */
+  offset: number
+  /** Payload length, for length-delimited records. */
+  length?: number
+  guess?: RawGuess
+  /** Interpretation actually used; differs from the guess when overridden. */
+  interpretation?: RawInterpretation
+}
+
+export interface RawDecodeResult {
+  /** Values keyed by field number; fields seen more than once become arrays. */
+  data: DecodedData
+  records: RawRecord[]
+  warnings: string[]
+  errors: DecodeError[]
+}
+
+const utf8 = new TextDecoder("utf-8", { fatal: true })
+
+const RECORD_WIRE_TYPES = [WIRE_TYPE_VARINT, WIRE_TYPE_FIXED64, WIRE_TYPE_LENGTH_DELIMITED, WIRE_TYPE_FIXED32]
+
+const isPrintable = (text: string) => !/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f�]/.test(text)
+
+/** True if the bytes parse as a sequence of well-formed records that ends exactly at the end. */
+export const isValidMessage = (data: Uint8Array): boolean => {
+  let offset = 0
+  try {
+    while (offset < data.length) {
+      const { value: tag, newOffset } = decodeVarint(data, offset)
+      const wireType = tag % 8
+      if (tag < 8 || !RECORD_WIRE_TYPES.includes(wireType)) return false
+      offset = skipField(data, newOffset, wireType)
+      if (offset > data.length) return false
+    }
+  } catch {
+    return false
+  }
+  return data.length > 0
+}
+
+const readPackedVarints = (data: Uint8Array): bigint[] | undefined => {
+  const values: bigint[] = []
+  let offset = 0
+  try {
+    while (offset < data.length) {
+      const { value, newOffset } = decodeVarint64(data, offset)
+      values.push(value)
+      offset = newOffset
+    }
+  } catch {
+    return undefined
+  }
+  return values.length > 0 ? values : undefined
+}
+
+const decodeUtf8 = (data: Uint8Array): string | undefined => {
+  try {
+    return utf8.decode(data)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Guesses what a length-delimited payload holds. Printable UTF-8 wins over a
+ * nested message when both parse, since short strings often happen to be valid
+ * wire data; packed varints are the least specific structured reading.
+ */
+export function guessLengthDelimited(data: Uint8Array): RawGuess {
+  if (data.length === 0) {
+    return { kind: "string", confidence: "low", candidates: ["string", "message", "bytes"] }
+  }
+
+  const text = decodeUtf8(data)
+  const printable = text !== undefined && isPrintable(text)
+  const message = isValidMessage(data)
+  const packed = readPackedVarints(data) !== undefined
+
+  const candidates: RawInterpretation[] = []
+  if (text !== undefined) candidates.push("string")
+  if (message) candidates.push("message")
+  if (packed) candidates.push("packed")
+  candidates.push("bytes")
+
+  if (printable && message) {
+    return { kind: "string", confidence: "medium", candidates }
+  }
+  if (printable) {
+    return { kind: "string", confidence: "high", candidates }
+  }
+  if (message) {
+    return { kind: "message", confidence: data.length > 2 ? "high" : "medium", candidates }
+  }
+  if (packed) {
+    return { kind: "packed", confidence: "low", candidates }
+  }
+  return { kind: "bytes", confidence: text !== undefined ? "medium" : "high", candidates }
+}
+
+/** Reads a length-delimited payload according to its best guess, as raw mode shows it. */
+export function interpretPayload(payload: Uint8Array, maxDepth = 64): any {
+  switch (guessLengthDelimited(payload).kind) {
+    case "string":
+      return new TextDecoder().decode(payload)
+    case "message":
+      return decodeRaw(payload.slice().buffer, {}, maxDepth).data
+    case "packed":
+      return readPackedVarints(payload)!.map((v) => format64(v, true))
+    default:
+      return Array.from(payload)
+  }
+}
+
+const toHex = (data: Uint8Array) =>
+  "0x" +
+  Array.from(data)
+    .reverse()
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")
+
+/**
+ * Walks the wire format without a schema, the way `protoc --decode_raw` does.
+ * Varints are shown unsigned, fixed-width values as little-endian hex, and each
+ * length-delimited payload according to `overrides[path]` or its best guess.
+ */
+export function decodeRaw(
+  binaryData: ArrayBuffer,
+  overrides: Record<string, RawInterpretation> = {},
+  maxDepth = 64,
+): RawDecodeResult {
+  const records: RawRecord[] = []
+  const warnings: string[] = []
+  const errors: DecodeError[] = []
+  const base = new Uint8Array(binaryData)
+
+  const walk = (data: Uint8Array, baseOffset: number, parentPath: string, depth: number): DecodedData => {
+    const result: DecodedData = {}
+    const counts: Record<number, number> = {}
+    let offset = 0
+
+    while (offset < data.length) {
+      const tagOffset = offset
+      let recordPath = parentPath
+      let recordWireType: number | undefined
+
+      try {
+        const { value: tag, newOffset } = decodeVarint(data, offset)
+        offset = newOffset
+        const fieldNumber = Math.floor(tag / 8)
+        const wireType = tag % 8
+
+        const occurrence = counts[fieldNumber] ?? 0
+        counts[fieldNumber] = occurrence + 1
+        const path = `${parentPath ? `${parentPath}.` : ""}${fieldNumber}[${occurrence}]`
+        recordPath = path
+        recordWireType = wireType
+        const record: RawRecord = { path, fieldNumber, wireType, offset: baseOffset + tagOffset }
+        records.push(record)
+        let value: any
+
+        switch (wireType) {
+          case WIRE_TYPE_VARINT: {
+            const varint = decodeVarint64(data, offset)
+            value = format64(varint.value, true)
+            offset = varint.newOffset
+            break
+          }
+          case WIRE_TYPE_FIXED64:
+          case WIRE_TYPE_FIXED32: {
+            const size = wireType === WIRE_TYPE_FIXED64 ? 8 : 4
+            if (offset + size > data.length) {
+              throw new Error(`Not enough data for ${size * 8}-bit field`)
+            }
+            value = toHex(data.subarray(offset, offset + size))
+            offset += size
+            break
+          }
+          case WIRE_TYPE_LENGTH_DELIMITED: {
+            const { value: length, newOffset: lengthOffset } = decodeVarint(data, offset)
+            if (lengthOffset + length > data.length) {
+              throw new Error(`Length ${length} runs past the end of the data`)
+            }
+            const payload = data.subarray(lengthOffset, lengthOffset + length)
+            const guess = guessLengthDelimited(payload)
+            let kind = overrides[path] ?? guess.kind
+
+            if (kind === "message" && (depth + 1 > maxDepth || !isValidMessage(payload))) {
+              warnings.push(`${path}: cannot be read as a message; showing bytes`)
+              kind = "bytes"
+            }
+
+            switch (kind) {
+              case "string":
+                value = new TextDecoder().decode(payload)
+                break
+              case "message":
+                value = walk(payload, baseOffset + lengthOffset, path, depth + 1)
+                break
+              case "packed": {
+                const values = readPackedVarints(payload)
+                if (values) {
+                  value = values.map((v) => format64(v, true))
+                } else {
+                  warnings.push(`${path}: cannot be read as packed varints; showing bytes`)
+                  kind = "bytes"
+                  value = Array.from(payload)
+                }
+                break
+              }
+              default:
+                value = Array.from(payload)
+            }
+
+            record.length = length
+            record.guess = guess
+            record.interpretation = kind
+            offset = lengthOffset + length
+            break
+          }
+          default:
+            throw new Error(`Unsupported wire type ${wireType}`)
+        }
+
+        const key = String(fieldNumber)
+        if (!(key in result)) {
+          result[key] = value
+        } else if (occurrence === 1) {
+          result[key] = [result[key], value]
+        } else {
+          result[key].push(value)
+        }
+      } catch (err) {
+        errors.push({
+          offset: baseOffset + tagOffset,
+          path: recordPath,
+          wireType: recordWireType,
+          reason: err instanceof Error ? err.message : String(err),
+        })
+        break
+      }
+    }
+
+    return result
+  }
+
+  return { data: walk(base, 0, "", 0), records, warnings, errors }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest"
+import { verifyRoundTrip } from "./roundtrip"
+import { parseProtoFile } from "./schema"
+
+const schema = parseProtoFile(`
+  syntax = "proto3";
+  package rt;
+
+  message Inner { int32 value = 1; }
+
+  message Sample {
+    int32 a = 1;
+    string s = 2;
+    repeated int32 nums = 3;
+    repeated int32 loose = 4 [packed = false];
+    Inner inner = 5;
+    map<string, int32> counts = 6;
+    optional int32 opt = 7;
+    double d = 8;
+  }
+`)
+
+const proto2 = parseProtoFile(`
+  syntax = "proto2";
+  message Legacy { repeated int32 plain = 1; }
+`)
+
+const sample = schema.messages.find((m) => m.fullName === "rt.Sample")!
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16)).buffer
+const verify = (hex: string, maxDepth?: number) => verifyRoundTrip(fromHex(hex), sample, schema, { maxDepth })
+
+describe("verifyRoundTrip", () => {
+  it.each(["", "08011201611a020102", "20012002", "2a020801", "3800", "32050a01611001", "41000000000000f87f"])(
+    "re-encodes %j identically",
+    (hex) => {
+      const report = verify(hex)
+      expect(report).toMatchObject({ identical: true, originalSize: hex.length / 2, encodedSize: hex.length / 2 })
+      expect(report.divergences).toEqual([])
+    },
+  )
+
+  it.each([
+    ["088100", "non-canonical-varint", "a", 1, "value uses 2 bytes where 1 suffice"],
+    ["880001", "non-canonical-varint", "a", 0, "tag uses 2 bytes where 1 suffice"],
+    ["2a03088100", "non-canonical-varint", "inner.value", 3, "value uses 2 bytes where 1 suffice"],
+    ["1a03810001", "non-canonical-varint", "nums", 2, "packed element uses 2 bytes where 1 suffice"],
+    ["1201610801", "field-order", "a", 3, "field 1 follows field 2; fields are re-encoded in number order"],
+    ["f001010801", "field-order", "a", 3, "appears after an unknown field; unknown fields are re-encoded last"],
+    ["18011802", "packing", "nums", 0, "unpacked in the original; proto3 fields are re-encoded packed"],
+    ["22020102", "packing", "loose", 0, "packed in the original; [packed=false] fields are re-encoded unpacked"],
+    ["1a01011a0102", "packing", "nums", 3, "split across several packed records; re-encoded as one"],
+    [
+      "08010802",
+      "duplicate-field",
+      "a",
+      2,
+      "singular field occurs more than once; only the merged value is re-encoded",
+    ],
+    [
+      "32050a0161100132050a01611002",
+      "duplicate-field",
+      "counts",
+      7,
+      'map key "a" occurs more than once; only its last value is re-encoded',
+    ],
+    [
+      "32050a0162100132050a01321002",
+      "map-order",
+      "counts",
+      0,
+      'key "2" is re-encoded before "b"; map entries are re-encoded with integer keys first',
+    ],
+    [
+      "0800",
+      "explicit-default",
+      "a",
+      0,
+      "int32 set to its default value; fields without presence are re-encoded omitted",
+    ],
+    ["41010000000000f87f", "bytes", "d", 1, "original has 0x01 where re-encoding has 0x00"],
+  ])("explains %s as %s of %s", (hex, kind, path, offset, detail) => {
+    const report = verify(hex)
+    expect(report.identical).toBe(false)
+    expect(report.divergences).toEqual([{ kind, path, offset, detail }])
+  })
+
+  it("names the field at the first difference", () => {
+    const report = verify("1201610801")
+    expect(report.firstDifference).toEqual({ offset: 0, path: "s" })
+    expect(Array.from(report.encoded)).toEqual([0x08, 0x01, 0x12, 0x01, 0x61])
+  })
+
+  it("judges packing by the syntax's default when no option is set", () => {
+    const report = verifyRoundTrip(fromHex("0a020102"), proto2.messages[0], proto2)
+    expect(report.divergences).toEqual([
+      {
+        kind: "packing",
+        path: "plain",
+        offset: 0,
+        detail: "packed in the original; proto2 fields are re-encoded unpacked",
+      },
+    ])
+  })
+
+  it.each([
+    ["12056162", undefined, { offset: 0, path: "s", wireType: 2, reason: "Length 5 runs past the end of the data" }],
+    ["2a020801", 0, { offset: 0, path: "inner", wireType: 2, reason: "rt.Inner beyond max depth 0" }],
+  ])("reports %s as undecodable instead of comparing it", (hex, maxDepth, error) => {
+    expect(verify(hex, maxDepth)).toEqual({
+      identical: false,
+      originalSize: hex.length / 2,
+      encodedSize: 0,
+      divergences: [],
+      encoded: new Uint8Array(0),
+      undecodable: [error],
+    })
+  })
+})
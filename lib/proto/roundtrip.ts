@@ -0,0 +1,331 @@
+import {
+  decodeProtobufData,
+  decodeVarint,
+  decodeVarint64,
+  expectedWireType,
+  skipField,
+  type DecodeError,
+  type DecodeOptions,
+} from "./decoder"
+import { encodeProtobufData, encodeVarint } from "./encoder"
+import {
+  findEnum,
+  findMessage,
+  formatFieldType,
+  hasPresence,
+  isPackedField,
+  type ProtoMessage,
+  type ProtoSchema,
+} from "./schema"
+import { isPackableType, SCALAR_WIRE_TYPES, WIRE_TYPE_LENGTH_DELIMITED, WIRE_TYPE_VARINT } from "./wire"
+
+export type DivergenceKind =
+  | "non-canonical-varint"
+  | "field-order"
+  | "packing"
+  | "duplicate-field"
+  | "explicit-default"
+  | "map-order"
+  | "bytes"
+
+/** A way in which the original encoding differs from what the encoder writes. */
+export interface RoundTripDivergence {
+  kind: DivergenceKind
+  /** Path of the responsible field. */
+  path: string
+  /** Offset within the original binary. */
+  offset: number
+  detail: string
+}
+
+export interface RoundTripReport {
+  identical: boolean
+  originalSize: number
+  encodedSize: number
+  /** First offset at which the two encodings differ, if they do. */
+  firstDifference?: { offset: number; path: string }
+  divergences: RoundTripDivergence[]
+  encoded: Uint8Array
+  /**
+   * Set when the input could not be decoded in full, because it is corrupt or
+   * nests deeper than `maxDepth`; nothing is re-encoded or compared then.
+   */
+  undecodable?: DecodeError[]
+}
+
+interface Span {
+  start: number
+  end: number
+  path: string
+}
+
+interface MapEntryRecord {
+  key: string
+  offset: number
+  path: string
+}
+
+const joinPath = (path: string, name: string) => (path ? `${path}.${name}` : name)
+
+// Reads a varint and reports it when it uses more bytes than its minimal encoding
+const readVarint = (
+  data: Uint8Array,
+  offset: number,
+  at: { base: number; path: string; what: string },
+  divergences: RoundTripDivergence[],
+) => {
+  const { value, newOffset } = decodeVarint64(data, offset)
+  const minimal = encodeVarint(value).length
+  if (newOffset - offset > minimal) {
+    divergences.push({
+      kind: "non-canonical-varint",
+      path: at.path,
+      offset: at.base + offset,
+      detail: `${at.what} uses ${newOffset - offset} bytes where ${minimal} suffice`,
+    })
+  }
+  return { value, newOffset }
+}
+
+// Decoded maps are JS objects, which list integer-like keys first in ascending
+// order and keep a key where it was first set, so entries are re-encoded in that order
+const reportMapEntries = (entries: MapEntryRecord[], divergences: RoundTripDivergence[]) => {
+  const written: Record<string, true> = Object.create(null)
+  const firsts: MapEntryRecord[] = []
+  entries.forEach((entry) => {
+    if (Object.hasOwn(written, entry.key)) {
+      divergences.push({
+        kind: "duplicate-field",
+        path: entry.path,
+        offset: entry.offset,
+        detail: `map key ${JSON.stringify(entry.key)} occurs more than once; only its last value is re-encoded`,
+      })
+    } else {
+      firsts.push(entry)
+    }
+    written[entry.key] = true
+  })
+
+  const order = Object.keys(written)
+  const moved = firsts.findIndex((entry, i) => entry.key !== order[i])
+  if (moved >= 0) {
+    divergences.push({
+      kind: "map-order",
+      path: firsts[moved].path,
+      offset: firsts[moved].offset,
+      detail:
+        `key ${JSON.stringify(order[moved])} is re-encoded before ${JSON.stringify(firsts[moved].key)}; ` +
+        "map entries are re-encoded with integer keys first",
+    })
+  }
+}
+
+// A value's bytes, length prefix included, encode zero, false or an empty string or bytes
+const isZeroValue = (bytes: Uint8Array, wireType: number) =>
+  wireType === WIRE_TYPE_VARINT || wireType === WIRE_TYPE_LENGTH_DELIMITED
+    ? decodeVarint64(bytes, 0).value === BigInt(0)
+    : bytes.every((b) => b === 0)
+
+/**
+ * Walks the original encoding of a message, noting everything the encoder will
+ * normalise: over-long varints, fields out of number order, packing that differs
+ * from the encoder's, singular fields and map keys that occur more than once,
+ * map entries out of the decoded object's key order and defaults written to
+ * fields without presence. Every record is also recorded as a span
+ * so byte differences can be traced to a field.
+ */
+function analyse(
+  data: Uint8Array,
+  base: number,
+  message: ProtoMessage,
+  schema: ProtoSchema,
+  path: string,
+  divergences: RoundTripDivergence[],
+  spans: Span[],
+) {
+  const occurrences = new Map<number, number>()
+  const packingReported = new Set<number>()
+  const mapEntries = new Map<number, MapEntryRecord[]>()
+  let highestNumber = 0
+  let sawUnknown = false
+  let unknownOrderReported = false
+  let offset = 0
+
+  while (offset < data.length) {
+    const start = offset
+    const tag = decodeVarint(data, offset)
+    const fieldNumber = Math.floor(tag.value / 8)
+    const wireType = tag.value % 8
+    const field = message.fields.find((f) => f.number === fieldNumber)
+    const fieldPath = joinPath(path, field ? field.name : `#${fieldNumber}`)
+    readVarint(data, offset, { base, path: fieldPath, what: "tag" }, divergences)
+    offset = tag.newOffset
+    const end = skipField(data, offset, wireType)
+    if (end > data.length) break
+    spans.push({ start: base + start, end: base + end, path: fieldPath })
+
+    const enumType = field?.resolvedType ? findEnum(schema, field.resolvedType) : undefined
+    const messageType = field?.resolvedType ? findMessage(schema, field.resolvedType) : undefined
+    const expected = field ? expectedWireType(field, schema) : undefined
+    const packable = !!field && field.repeated && !field.map && (!!enumType || isPackableType(field.type))
+    const isPacked = packable && wireType === WIRE_TYPE_LENGTH_DELIMITED
+
+    // Unknown and mismatched records are written back after all known fields
+    if (!field || (expected !== undefined && wireType !== expected && !isPacked)) {
+      sawUnknown = true
+      offset = end
+      continue
+    }
+
+    if (fieldNumber < highestNumber) {
+      divergences.push({
+        kind: "field-order",
+        path: fieldPath,
+        offset: base + start,
+        detail: `field ${fieldNumber} follows field ${highestNumber}; fields are re-encoded in number order`,
+      })
+    } else if (sawUnknown && !unknownOrderReported) {
+      divergences.push({
+        kind: "field-order",
+        path: fieldPath,
+        offset: base + start,
+        detail: "appears after an unknown field; unknown fields are re-encoded last",
+      })
+      unknownOrderReported = true
+    }
+    highestNumber = Math.max(highestNumber, fieldNumber)
+
+    const count = (occurrences.get(fieldNumber) ?? 0) + 1
+    occurrences.set(fieldNumber, count)
+    if (!field.repeated && count === 2) {
+      divergences.push({
+        kind: "duplicate-field",
+        path: fieldPath,
+        offset: base + start,
+        detail: "singular field occurs more than once; only the merged value is re-encoded",
+      })
+    }
+
+    if (packable && !packingReported.has(fieldNumber)) {
+      const packRepeated = isPackedField(field, schema)
+      // Names what decides the packing: the field's own option, or else the syntax
+      const rule = field.packed === undefined ? `${schema.syntax} fields are` : `[packed=${field.packed}] fields are`
+      let detail: string | undefined
+      if (isPacked && !packRepeated) detail = `packed in the original; ${rule} re-encoded unpacked`
+      if (!isPacked && packRepeated) detail = `unpacked in the original; ${rule} re-encoded packed`
+      if (isPacked && packRepeated && count === 2) detail = "split across several packed records; re-encoded as one"
+      if (detail) {
+        divergences.push({ kind: "packing", path: fieldPath, offset: base + start, detail })
+        packingReported.add(fieldNumber)
+      }
+    }
+
+    if (!hasPresence(field, schema) && isZeroValue(data.subarray(offset, end), wireType)) {
+      divergences.push({
+        kind: "explicit-default",
+        path: fieldPath,
+        offset: base + start,
+        detail: `${formatFieldType(field)} set to its default value; fields without presence are re-encoded omitted`,
+      })
+    }
+
+    if (wireType === WIRE_TYPE_VARINT) {
+      readVarint(data, offset, { base, path: fieldPath, what: "value" }, divergences)
+    } else if (wireType === WIRE_TYPE_LENGTH_DELIMITED) {
+      const length = readVarint(data, offset, { base, path: fieldPath, what: "length" }, divergences)
+      const payloadStart = length.newOffset
+      const payload = data.subarray(payloadStart, end)
+
+      if (isPacked && (enumType || SCALAR_WIRE_TYPES.get(field.type) === WIRE_TYPE_VARINT)) {
+        const at = { base: base + payloadStart, path: fieldPath, what: "packed element" }
+        for (let p = 0; p < payload.length; ) {
+          p = readVarint(payload, p, at, divergences).newOffset
+        }
+      } else if (messageType && messageType.fullName !== "google.protobuf.Any") {
+        if (field.map) {
+          // Keys are read as the decoder reads them, so they match the decoded object's
+          const entryData = payload.slice().buffer
+          const { data: entry } = decodeProtobufData(entryData, messageType, schema, { emitDefaults: true })
+          const entries = mapEntries.get(fieldNumber) ?? []
+          entries.push({ key: String(entry.key), offset: base + start, path: fieldPath })
+          mapEntries.set(fieldNumber, entries)
+        }
+        analyse(payload, base + payloadStart, messageType, schema, fieldPath, divergences, spans)
+      }
+    }
+    offset = end
+  }
+  mapEntries.forEach((entries) => reportMapEntries(entries, divergences))
+}
+
+/**
+ * Decodes a binary, re-encodes the result and compares the two byte for byte.
+ * Divergences explain where and why the encoder's canonical output differs from
+ * the original. Input that only decodes in part is reported as undecodable
+ * rather than compared, as its re-encoding would lack what was not read.
+ */
+export function verifyRoundTrip(
+  binaryData: ArrayBuffer,
+  message: ProtoMessage,
+  schema: ProtoSchema,
+  options: Pick<DecodeOptions, "maxDepth"> = {},
+): RoundTripReport {
+  const original = new Uint8Array(binaryData)
+  const { data, errors, undecoded } = decodeProtobufData(binaryData, message, schema, options)
+  if (errors.length > 0 || undecoded.length > 0) {
+    return {
+      identical: false,
+      originalSize: original.length,
+      encodedSize: 0,
+      divergences: [],
+      encoded: new Uint8Array(0),
+      undecodable: [...errors, ...undecoded],
+    }
+  }
+  const encoded = encodeProtobufData(data, message, schema)
+
+  let firstOffset = -1
+  for (let i = 0; i < Math.max(original.length, encoded.length); i++) {
+    if (original[i] !== encoded[i]) {
+      firstOffset = i
+      break
+    }
+  }
+
+  const report: RoundTripReport = {
+    identical: firstOffset === -1,
+    originalSize: original.length,
+    encodedSize: encoded.length,
+    divergences: [],
+    encoded,
+  }
+  if (report.identical) return report
+
+  const spans: Span[] = []
+  try {
+    analyse(original, 0, message, schema, "", report.divergences, spans)
+  } catch {
+    // The decoder has already reported where the data stops making sense
+  }
+
+  // The innermost record containing the first difference names the field
+  const containing = spans
+    .filter((s) => s.start <= firstOffset && firstOffset < s.end)
+    .sort((a, b) => a.end - a.start - (b.end - b.start))[0]
+  report.firstDifference = { offset: firstOffset, path: containing?.path ?? "" }
+
+  if (report.divergences.length === 0) {
+    report.divergences.push({
+      kind: "bytes",
+      path: report.firstDifference.path,
+      offset: firstOffset,
+      detail:
+        firstOffset >= original.length
+          ? "re-encoding is longer than the original"
+          : `original has 0x${original[firstOffset].toString(16).padStart(2, "0")} where re-encoding has ${
+              firstOffset < encoded.length ? `0x${encoded[firstOffset].toString(16).padStart(2, "0")}` : "ended"
+            }`,
+    })
+  }
+  return report
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest"
+import { findMessage, isPackedField, mapEntryName, parseProtoFile, resolveTypeName, toJsonName } from "./schema"
+
+describe("toJsonName", () => {
+  it.each([
+    ["name", "name"],
+    ["field_name", "fieldName"],
+    ["field_name_2", "fieldName2"],
+    ["already_camelCase", "alreadyCamelCase"],
+  ])("converts %s to %s", (name, jsonName) => {
+    expect(toJsonName(name)).toBe(jsonName)
+  })
+})
+
+describe("mapEntryName", () => {
+  it.each([
+    ["counters", "CountersEntry"],
+    ["string_map", "StringMapEntry"],
+  ])("names the entry of %s %s", (name, entry) => {
+    expect(mapEntryName(name)).toBe(entry)
+  })
+})
+
+describe("resolveTypeName", () => {
+  const known = new Set(["a.Foo", "a.b.Foo", "a.b.C.Bar", "Top"])
+  const isKnown = (name: string) => known.has(name)
+
+  it.each([
+    ["Foo", "a.b.C", "a.b.Foo"],
+    ["Foo", "a.C", "a.Foo"],
+    ["Bar", "a.b.C", "a.b.C.Bar"],
+    ["Top", "a.b.C", "Top"],
+    [".a.Foo", "a.b.C", "a.Foo"],
+    [".Foo", "a.b.C", undefined],
+    ["Missing", "a.b.C", undefined],
+  ])("resolves %s from %s to %s", (typeName, scope, fullName) => {
+    expect(resolveTypeName(typeName, scope, isKnown)).toBe(fullName)
+  })
+})
+
+describe("parseProtoFile", () => {
+  const schema = parseProtoFile(`
+    syntax = "proto3";
+    package pkg;
+
+    enum Top { TOP_UNSPECIFIED = 0; }
+
+    message Outer {
+      message Inner { Top top = 1; }
+      enum Kind { KIND_UNSPECIFIED = 0; }
+
+      int32 first = 1;
+      oneof choice {
+        string text = 2;
+        Inner inner = 3;
+      }
+      Kind kind = 4; oneof other { bytes raw = 5; }
+      optional string last_name = 6 [json_name = "surname"];
+    }
+  `)
+
+  it("lists nested types under their dotted path", () => {
+    expect(schema.messages.map((m) => m.fullName)).toEqual(["pkg.Outer", "pkg.Outer.Inner"])
+    expect(schema.enums.map((e) => e.fullName)).toEqual(["pkg.Top", "pkg.Outer.Kind"])
+  })
+
+  it("keeps fields, oneof members included, in declaration order", () => {
+    const outer = findMessage(schema, "pkg.Outer")!
+    expect(outer.fields.map((f) => [f.name, f.oneof])).toEqual([
+      ["first", undefined],
+      ["text", "choice"],
+      ["inner", "choice"],
+      ["kind", undefined],
+      ["raw", "other"],
+      ["last_name", undefined],
+    ])
+    expect(outer.oneofs).toEqual([
+      { name: "choice", fields: ["text", "inner"] },
+      { name: "other", fields: ["raw"] },
+    ])
+  })
+
+  it("resolves field types and json names", () => {
+    const outer = findMessage(schema, "pkg.Outer")!
+    const inner = findMessage(schema, "pkg.Outer.Inner")!
+    expect(outer.fields.map((f) => [f.name, f.resolvedType, f.jsonName, f.optional])).toEqual([
+      ["first", undefined, "first", false],
+      ["text", undefined, "text", false],
+      ["inner", "pkg.Outer.Inner", "inner", false],
+      ["kind", "pkg.Outer.Kind", "kind", false],
+      ["raw", undefined, "raw", false],
+      ["last_name", undefined, "surname", true],
+    ])
+    expect(inner.fields[0].resolvedType).toBe("pkg.Top")
+  })
+})
+
+describe("isPackedField", () => {
+  it.each([
+    ["proto3", "", true],
+    ["proto3", " [packed = false]", false],
+    ["proto3", " [packed = true]", true],
+    ["proto2", "", false],
+    ["proto2", " [packed = true]", true],
+    ["proto2", " [packed = false]", false],
+  ])("packs a %s field declared with%s as %s", (syntax, options, packed) => {
+    const schema = parseProtoFile(`syntax = "${syntax}"; message M { repeated int32 values = 1${options}; }`)
+    expect(isPackedField(schema.messages[0].fields[0], schema)).toBe(packed)
+  })
+})
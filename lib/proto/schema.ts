@@ -0,0 +1,244 @@
+import { parseProto } from "./parser"
+import type { EnumNode, FieldNode, MapFieldNode, MessageNode, ProtoFileNode } from "./ast"
+
+export const SCALAR_TYPES = new Set([
+  "double",
+  "float",
+  "int32",
+  "int64",
+  "uint32",
+  "uint64",
+  "sint32",
+  "sint64",
+  "fixed32",
+  "fixed64",
+  "sfixed32",
+  "sfixed64",
+  "bool",
+  "string",
+  "bytes",
+])
+
+export interface ProtoField {
+  type: string
+  name: string
+  /** Key in proto3 JSON: the `json_name` option if set, otherwise the name in lowerCamelCase. */
+  jsonName: string
+  number: number
+  repeated: boolean
+  optional: boolean
+  /** Fully-qualified name of the message or enum `type` refers to, once resolved. */
+  resolvedType?: string
+  /** Name of the oneof group this field belongs to, if any. */
+  oneof?: string
+  /** Set for `map<K, V>` fields, whose `type` is the synthetic entry message. */
+  map?: { keyType: string; valueType: string }
+  /** The `packed` option, when the field sets it. */
+  packed?: boolean
+}
+
+export interface ProtoOneof {
+  name: string
+  /** Names of the member fields, in declaration order. */
+  fields: string[]
+}
+
+export interface ProtoMessage {
+  /** Name relative to the package, e.g. `Outer.Inner` for nested messages. */
+  name: string
+  /** Fully-qualified name including the package. */
+  fullName: string
+  fields: ProtoField[]
+  oneofs: ProtoOneof[]
+  /** True for the synthetic `<Field>Entry` messages that back map fields. */
+  mapEntry?: boolean
+  /** Path of the .proto file that defines the message, within a workspace. */
+  file?: string
+}
+
+export interface ProtoEnumValue {
+  name: string
+  number: number
+}
+
+export interface ProtoEnum {
+  name: string
+  fullName: string
+  values: ProtoEnumValue[]
+  file?: string
+}
+
+export interface ProtoSchema {
+  syntax: string
+  package: string
+  imports: string[]
+  /** Imports declared `import public`, whose types are re-exported to importers. */
+  publicImports: string[]
+  messages: ProtoMessage[]
+  enums: ProtoEnum[]
+}
+
+// protoc names a map's entry message after the field: `counters` -> `CountersEntry`
+export const mapEntryName = (fieldName: string) =>
+  fieldName
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("") + "Entry"
+
+// protoc drops each underscore and capitalizes the letter after it: `field_name_2` -> `fieldName2`
+export const toJsonName = (name: string) => name.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase())
+
+const jsonNameOption = (node: FieldNode | MapFieldNode) => {
+  const option = node.options.find((o) => o.name === "json_name")
+  return typeof option?.value === "string" ? option.value : toJsonName(node.name)
+}
+
+export const formatFieldType = (field: ProtoField) =>
+  field.map ? `map<${field.map.keyType}, ${field.map.valueType}>` : field.type
+
+const toField = (node: FieldNode | MapFieldNode): ProtoField => {
+  if (node.kind === "map") {
+    // A map is sugar for a repeated field of a nested entry message
+    return {
+      type: mapEntryName(node.name),
+      name: node.name,
+      jsonName: jsonNameOption(node),
+      number: node.number,
+      repeated: true,
+      optional: false,
+      map: { keyType: node.keyType, valueType: node.valueType },
+    }
+  }
+  const packed = node.options.find((o) => o.name === "packed")?.value
+  return {
+    type: node.type,
+    name: node.name,
+    jsonName: jsonNameOption(node),
+    number: node.number,
+    repeated: node.label === "repeated",
+    optional: node.label === "optional",
+    ...(typeof packed === "boolean" && { packed }),
+  }
+}
+
+/**
+ * Resolves a type reference the way protoc does: a leading dot means the name is
+ * already fully qualified, otherwise the name is looked up in the enclosing scope
+ * and then in each parent scope in turn.
+ */
+export function resolveTypeName(typeName: string, scope: string, isKnown: (fullName: string) => boolean) {
+  if (typeName.startsWith(".")) {
+    const fullName = typeName.slice(1)
+    return isKnown(fullName) ? fullName : undefined
+  }
+
+  const parts = scope ? scope.split(".") : []
+  for (let i = parts.length; i >= 0; i--) {
+    const candidate = [...parts.slice(0, i), typeName].join(".")
+    if (isKnown(candidate)) return candidate
+  }
+  return undefined
+}
+
+export const findMessage = (schema: ProtoSchema, fullName: string) =>
+  schema.messages.find((m) => m.fullName === fullName)
+
+export const findEnum = (schema: ProtoSchema, fullName: string) => schema.enums.find((e) => e.fullName === fullName)
+
+/** False for proto3 singular scalars and enums outside a oneof, which cannot tell unset from default. */
+export const hasPresence = (field: ProtoField, schema: ProtoSchema) =>
+  field.repeated ||
+  field.optional ||
+  !!field.oneof ||
+  schema.syntax === "proto2" ||
+  !!(field.resolvedType && findMessage(schema, field.resolvedType))
+
+/**
+ * Whether a repeated scalar or enum field is written packed: as its `packed`
+ * option says, otherwise packed in proto3 and unpacked in proto2.
+ */
+export const isPackedField = (field: ProtoField, schema: ProtoSchema) => field.packed ?? schema.syntax !== "proto2"
+
+/**
+ * Fills in `resolvedType` for every non-scalar field in the schema. `known` lists
+ * the fully-qualified types visible to it and defaults to the schema's own types.
+ */
+export function resolveSchemaTypes(
+  schema: ProtoSchema,
+  known = new Set([...schema.messages.map((m) => m.fullName), ...schema.enums.map((e) => e.fullName)]),
+) {
+  schema.messages.forEach((message) => {
+    message.fields.forEach((field) => {
+      if (SCALAR_TYPES.has(field.type)) return
+      field.resolvedType = resolveTypeName(field.type, message.fullName, (name) => known.has(name))
+    })
+  })
+}
+
+/**
+ * Flattens the AST into the schema model used by the decoder. Nested messages and
+ * enums are listed alongside top-level ones under their dotted path.
+ */
+export function buildSchema(ast: ProtoFileNode): ProtoSchema {
+  const schema: ProtoSchema = {
+    syntax: ast.syntax,
+    package: ast.package,
+    imports: ast.imports.map((i) => i.path),
+    publicImports: ast.imports.filter((i) => i.modifier === "public").map((i) => i.path),
+    messages: [],
+    enums: [],
+  }
+
+  const prefix = ast.package ? `${ast.package}.` : ""
+
+  const visitEnum = (node: EnumNode, parent: string) => {
+    const name = parent ? `${parent}.${node.name}` : node.name
+    schema.enums.push({
+      name,
+      fullName: prefix + name,
+      values: node.values.map((v) => ({ name: v.name, number: v.number })),
+    })
+  }
+
+  const visit = (node: MessageNode, parent: string) => {
+    const name = parent ? `${parent}.${node.name}` : node.name
+    // Oneof members are listed where they were declared, as that order is the
+    // order fields are written in JSON and text format
+    const members = [
+      ...node.fields.map((f) => ({ node: f, field: toField(f) })),
+      ...node.oneofs.flatMap((o) => o.fields.map((f) => ({ node: f, field: { ...toField(f), oneof: o.name } }))),
+    ]
+    const fields = members
+      .sort((a, b) => a.node.line - b.node.line || a.node.column - b.node.column)
+      .map((m) => m.field)
+    const oneofs = node.oneofs.map((o) => ({ name: o.name, fields: o.fields.map((f) => f.name) }))
+
+    schema.messages.push({ name, fullName: prefix + name, fields, oneofs })
+
+    node.fields.forEach((field) => {
+      if (field.kind !== "map") return
+      const entryName = `${name}.${mapEntryName(field.name)}`
+      schema.messages.push({
+        name: entryName,
+        fullName: prefix + entryName,
+        fields: [
+          { type: field.keyType, name: "key", jsonName: "key", number: 1, repeated: false, optional: false },
+          { type: field.valueType, name: "value", jsonName: "value", number: 2, repeated: false, optional: false },
+        ],
+        oneofs: [],
+        mapEntry: true,
+      })
+    })
+    node.enums.forEach((child) => visitEnum(child, name))
+    node.messages.forEach((child) => visit(child, name))
+  }
+
+  ast.enums.forEach((node) => visitEnum(node, ""))
+  ast.messages.forEach((message) => visit(message, ""))
+  resolveSchemaTypes(schema)
+  return schema
+}
+
+export function parseProtoFile(content: string): ProtoSchema {
+  return buildSchema(parseProto(content))
+}
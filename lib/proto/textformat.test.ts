@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest"
+import { decodeProtobufData } from "./decoder"
+import { ProtoSyntaxError } from "./lexer"
+import { formatTextProto, parseTextProto } from "./textformat"
+import { buildWorkspace } from "./workspace"
+
+const { schema } = buildWorkspace([
+  {
+    path: "tf.proto",
+    size: 0,
+    content: `
+      syntax = "proto3";
+      package tf;
+      import "google/protobuf/any.proto";
+      import "google/protobuf/timestamp.proto";
+
+      enum Color { COLOR_UNSPECIFIED = 0; GREEN = 1; }
+      message Inner { int32 n = 1; }
+
+      message Sample {
+        int32 i = 1;
+        int64 big = 2;
+        string s = 3;
+        bytes b = 4;
+        double d = 5;
+        bool flag = 6;
+        Color color = 7;
+        Inner inner = 8;
+        repeated int32 nums = 9;
+        map<string, int32> counts = 10;
+        oneof kind {
+          string text = 11;
+          int32 number = 12;
+        }
+        google.protobuf.Any any = 13;
+        google.protobuf.Timestamp ts = 14;
+      }
+    `,
+  },
+])
+
+const sample = schema.messages.find((m) => m.fullName === "tf.Sample")!
+const format = (data: object) => formatTextProto(data, sample, schema, { bytesFormat: "array" })
+const parse = (source: string) => parseTextProto(source, sample, schema)
+// Repeated and map fields are always present in parsed results
+const parsed = (data: object) => ({ nums: [], counts: {}, ...data })
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16)).buffer
+
+describe("formatTextProto", () => {
+  it.each([
+    [{ i: 1, s: 'a"b', flag: true }, 'i: 1\ns: "a\\"b"\nflag: true\n'],
+    [{ flag: false, i: -1 }, "i: -1\nflag: false\n"],
+    [{ big: "-5" }, "big: -5\n"],
+    [{ s: "é\n" }, 's: "é\\n"\n'],
+    [{ b: [0, 65, 255] }, 'b: "\\000A\\377"\n'],
+    [{ d: "NaN" }, "d: nan\n"],
+    [{ d: "-Infinity" }, "d: -inf\n"],
+    [{ color: "GREEN" }, "color: GREEN\n"],
+    [{ color: "<unknown Color: 5>" }, "color: 5\n"],
+    [{ inner: { n: 1 } }, "inner {\n  n: 1\n}\n"],
+    [
+      { inner: "<Inner data: 2 bytes, max depth 0 exceeded>" },
+      "# inner: <Inner data: 2 bytes, max depth 0 exceeded>\n",
+    ],
+    [{ nums: [1, 2] }, "nums: 1\nnums: 2\n"],
+    [{ counts: { a: 1 } }, 'counts {\n  key: "a"\n  value: 1\n}\n'],
+    [{ ts: "1970-01-01T00:01:40Z" }, "ts {\n  seconds: 100\n}\n"],
+    [
+      { any: { "@type": "type.googleapis.com/tf.Inner", n: 1 } },
+      "any {\n  [type.googleapis.com/tf.Inner] {\n    n: 1\n  }\n}\n",
+    ],
+    [
+      { any: { "@type": "type.googleapis.com/x.Missing", value: [1] } },
+      'any {\n  type_url: "type.googleapis.com/x.Missing"\n  value: "\\001"\n}\n',
+    ],
+    [
+      {
+        $unknown: [
+          { number: 30, wireType: 0, raw: "96 01" },
+          { number: 31, wireType: 5, raw: "01 00 00 00" },
+          { number: 32, wireType: 2, raw: "02 61 62" },
+        ],
+      },
+      '30: 150\n31: 0x00000001\n32: "ab"\n',
+    ],
+  ])("formats %j", (data, text) => {
+    expect(format(data)).toBe(text)
+  })
+
+  it.each([
+    [{ nope: 1 }, "nope: tf.Sample has no field named nope"],
+    [{ s: 1 }, "s: expected a string, got 1"],
+    [{ nums: 1 }, "nums: expected an array for repeated field nums"],
+  ])("rejects %j", (data, error) => {
+    expect(() => format(data)).toThrow(error)
+  })
+})
+
+describe("parseTextProto", () => {
+  it.each([
+    ['i: 1 s: "x" flag: t', { i: 1, s: "x", flag: true }],
+    ["# comment\ni: 1;\nflag: True,", { i: 1, flag: true }],
+    ["i: -017 big: 0x10", { i: -15, big: "16" }],
+    ["d: -inf", { d: "-Infinity" }],
+    ["d: 1.5f", { d: 1.5 }],
+    ["d: nan", { d: "NaN" }],
+    ["d: 2", { d: 2 }],
+    ['b: "\\x41\\101" "B"', { b: [65, 65, 66] }],
+    ['s: "\\u00e9"', { s: "é" }],
+    ["color: GREEN", { color: "GREEN" }],
+    ["color: 5", { color: "<unknown Color: 5>" }],
+    ["inner < n: 2 >", { inner: { n: 2 } }],
+    ["inner: { }", { inner: {} }],
+    ["nums: [1, 2] nums: 3 nums: []", { nums: [1, 2, 3] }],
+    ['counts { key: "a" value: 1 } counts { key: "b" } counts {}', { counts: { a: 1, b: 0, "": 0 } }],
+    ["text: 'x'", { text: "x" }],
+    ["ts { seconds: 100 }", { ts: "1970-01-01T00:01:40Z" }],
+    ["any { [type.googleapis.com/tf.Inner] { n: 1 } }", { any: { "@type": "type.googleapis.com/tf.Inner", n: 1 } }],
+    [
+      'any { type_url: "type.googleapis.com/tf.Inner" value: "\\010\\001" }',
+      { any: { "@type": "type.googleapis.com/tf.Inner", n: 1 } },
+    ],
+    [
+      "30: 150 31: 0x00000001 32: -1",
+      {
+        $unknown: [
+          { number: 30, wireType: 0, value: 150, raw: "96 01" },
+          { number: 31, wireType: 5, value: 1, raw: "01 00 00 00" },
+          { number: 32, wireType: 0, value: "18446744073709551615", raw: "ff ff ff ff ff ff ff ff ff 01" },
+        ],
+      },
+    ],
+  ])("parses %j", (source, data) => {
+    expect(parse(source)).toEqual(parsed(data))
+  })
+
+  it.each([
+    ["nope: 1", 'Message type "tf.Sample" has no field named "nope" (line 1, column 1)'],
+    ["i: 1 i: 2", 'Non-repeated field "i" is specified multiple times (line 1, column 6)'],
+    [
+      'text: "a" number: 1',
+      'Field "number" is specified along with field "text", another member of oneof "kind" (line 1, column 11)',
+    ],
+    ["i 1", 'Expected ":" but found "1" (line 1, column 3)'],
+    ["i: 2147483648", "Integer 2147483648 is out of range for int32 (line 1, column 4)"],
+    ["color: PURPLE", 'Enum type "tf.Color" has no value named "PURPLE" (line 1, column 8)'],
+    ['s: "\\377"', 'String field "s" is not valid UTF-8 (line 1, column 4)'],
+    ["flag: 2", 'Expected true or false but found "2" (line 1, column 7)'],
+    ["d: x", 'Expected number but found "x" (line 1, column 4)'],
+    ["inner {", 'Expected "}" but found end of input (line 1, column 8)'],
+    ["0: 1", "Field number 0 is out of range (line 1, column 1)"],
+    ["[x.Y] {}", "Extensions are not supported (line 1, column 1)"],
+    [
+      "any { [type.googleapis.com/x.Missing] {} }",
+      'Message type "x.Missing" is not in the loaded schema (line 1, column 7)',
+    ],
+  ])("rejects %j", (source, message) => {
+    expect(() => parse(source)).toThrow(ProtoSyntaxError)
+    expect(() => parse(source)).toThrow(message)
+  })
+})
+
+describe("text format round trips", () => {
+  it("parses formatted output back to the decoded data", () => {
+    const hex = "08011002" + "1a0161" + "22020102" + "29000000000000f83f" + "3001" + "3801" + "42020803" + "4a020102"
+    const { data } = decodeProtobufData(fromHex(hex), sample, schema, { bytesFormat: "array" })
+    expect(parse(format(data))).toEqual(parsed(data))
+  })
+})
@@ -0,0 +1,586 @@
+import {
+  decodeProtobufData,
+  decodeVarint,
+  decodeVarint64,
+  createDecodedData,
+  format64,
+  formatEnumValue,
+  UNKNOWN_FIELDS_KEY,
+  type BytesFormat,
+  type DecodedData,
+  type UnknownField,
+} from "./decoder"
+import { encodeVarint, INTEGER_RANGES, toBytes, UNKNOWN_ENUM_PLACEHOLDER, type EncodeOptions } from "./encoder"
+import { ProtoSyntaxError, tokenize, type Token } from "./lexer"
+import { MAX_FIELD_NUMBER } from "./parser"
+import { interpretPayload } from "./raw"
+import { findEnum, findMessage, type ProtoField, type ProtoMessage, type ProtoSchema } from "./schema"
+import { hasSpecialJson, wellKnownFromJson, wellKnownToJson } from "./well-known"
+import { WIRE_TYPE_FIXED32, WIRE_TYPE_FIXED64, WIRE_TYPE_LENGTH_DELIMITED, WIRE_TYPE_VARINT } from "./wire"
+
+const INDENT = "  "
+
+const joinPath = (path: string, name: string) => (path ? `${path}.${name}` : name)
+
+const isPlainObject = (value: unknown): value is DecodedData =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+// Decoder placeholders such as `<Foo data: 12 bytes, max depth 64 exceeded>`
+const isPlaceholder = (value: unknown) => typeof value === "string" && /^<.+>$/.test(value)
+
+const octal = (byte: number) => "\\" + byte.toString(8).padStart(3, "0")
+
+const BYTE_ESCAPES: Record<number, string> = {
+  0x09: "\\t",
+  0x0a: "\\n",
+  0x0d: "\\r",
+  0x22: '\\"',
+  0x27: "\\'",
+  0x5c: "\\\\",
+}
+
+// Bytes outside printable ASCII are written as octal escapes, as protoc does
+const quoteBytes = (bytes: number[]) =>
+  '"' +
+  bytes.map((b) => BYTE_ESCAPES[b] ?? (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : octal(b))).join("") +
+  '"'
+
+// Strings keep their non-ASCII characters readable; only controls are escaped
+const quoteString = (text: string) =>
+  '"' +
+  Array.from(text)
+    .map((c) => {
+      const code = c.codePointAt(0)!
+      return BYTE_ESCAPES[code] ?? (code < 0x20 || code === 0x7f ? octal(code) : c)
+    })
+    .join("") +
+  '"'
+
+const formatFloat = (value: any) => {
+  if (value === "NaN") return "nan"
+  if (value === "Infinity") return "inf"
+  if (value === "-Infinity") return "-inf"
+  return String(value)
+}
+
+const hexBytes = (raw: string) => raw.trim().split(/\s+/).filter(Boolean)
+
+// Fixed-width unknown fields are written as zero-padded hex so parsing can tell
+// them apart from varints
+const formatUnknown = (field: UnknownField): string | undefined => {
+  const bytes = hexBytes(field.raw).map((b) => Number.parseInt(b, 16))
+  switch (field.wireType) {
+    case WIRE_TYPE_VARINT:
+      return decodeVarint64(Uint8Array.from(bytes), 0).value.toString()
+    case WIRE_TYPE_FIXED64:
+    case WIRE_TYPE_FIXED32:
+      return "0x" + hexBytes(field.raw).reverse().join("")
+    case WIRE_TYPE_LENGTH_DELIMITED: {
+      const { newOffset } = decodeVarint(Uint8Array.from(bytes), 0)
+      return quoteBytes(bytes.slice(newOffset))
+    }
+    default:
+      return undefined
+  }
+}
+
+interface FormatContext {
+  schema: ProtoSchema
+  bytesFormat: BytesFormat
+  lines: string[]
+}
+
+const formatScalar = (field: ProtoField, value: any, ctx: FormatContext, path: string): string => {
+  const enumType = field.resolvedType ? findEnum(ctx.schema, field.resolvedType) : undefined
+  if (enumType) {
+    const placeholder = typeof value === "string" ? UNKNOWN_ENUM_PLACEHOLDER.exec(value) : null
+    return placeholder ? placeholder[1] : String(value)
+  }
+
+  switch (field.type) {
+    case "string":
+      if (typeof value !== "string") throw new Error(`${path}: expected a string, got ${JSON.stringify(value)}`)
+      return quoteString(value)
+    case "bytes":
+      return quoteBytes(toBytes(value, path, ctx.bytesFormat))
+    case "float":
+    case "double":
+      return formatFloat(value)
+    default:
+      return String(value)
+  }
+}
+
+// Writes one occurrence of a field: `name: value` or `name { ... }`
+const formatValue = (field: ProtoField, value: any, indent: string, ctx: FormatContext, path: string) => {
+  const messageType = field.resolvedType ? findMessage(ctx.schema, field.resolvedType) : undefined
+  const enumType = field.resolvedType ? findEnum(ctx.schema, field.resolvedType) : undefined
+
+  // Values the decoder could not produce have no text form; keep them visible as comments
+  if (field.type !== "string" && isPlaceholder(value) && !(enumType && UNKNOWN_ENUM_PLACEHOLDER.test(value))) {
+    ctx.lines.push(`${indent}# ${field.name}: ${value}`)
+    return
+  }
+
+  if (messageType) {
+    ctx.lines.push(`${indent}${field.name} {`)
+    formatMessage(wellKnownFromJson(messageType.fullName, value), messageType, indent + INDENT, ctx, path)
+    ctx.lines.push(`${indent}}`)
+    return
+  }
+  ctx.lines.push(`${indent}${field.name}: ${formatScalar(field, value, ctx, path)}`)
+}
+
+// Any payloads of known types are written in the expanded `[type_url] { ... }` form
+const formatAny = (json: DecodedData, indent: string, ctx: FormatContext, path: string) => {
+  const { "@type": typeUrl, ...rest } = json
+  if (typeof typeUrl !== "string") throw new Error(`${path}: "@type" must be a string`)
+
+  const target = findMessage(ctx.schema, typeUrl.slice(typeUrl.lastIndexOf("/") + 1))
+  if (!target) {
+    ctx.lines.push(`${indent}type_url: ${quoteString(typeUrl)}`)
+    if (Object.hasOwn(rest, "value")) {
+      ctx.lines.push(`${indent}value: ${quoteBytes(toBytes(rest.value, joinPath(path, "value"), ctx.bytesFormat))}`)
+    }
+    return
+  }
+
+  const payload = hasSpecialJson(target.fullName) ? wellKnownFromJson(target.fullName, rest.value) : rest
+  ctx.lines.push(`${indent}[${typeUrl}] {`)
+  formatMessage(payload, target, indent + INDENT, ctx, path)
+  ctx.lines.push(`${indent}}`)
+}
+
+function formatMessage(json: any, message: ProtoMessage, indent: string, ctx: FormatContext, path: string) {
+  if (!isPlainObject(json)) {
+    throw new Error(`${path || message.name}: expected an object for ${message.fullName}, got ${JSON.stringify(json)}`)
+  }
+  if (message.fullName === "google.protobuf.Any" && Object.hasOwn(json, "@type")) {
+    formatAny(json, indent, ctx, path)
+    return
+  }
+
+  const names = new Set(message.fields.flatMap((f) => [f.name, f.jsonName]))
+  Object.keys(json).forEach((key) => {
+    if (key !== UNKNOWN_FIELDS_KEY && !names.has(key)) {
+      throw new Error(`${joinPath(path, key)}: ${message.fullName} has no field named ${key}`)
+    }
+  })
+
+  // Fields are written in field-number order, like the binary encoder
+  const fields = [...message.fields].sort((a, b) => a.number - b.number)
+  fields.forEach((field) => {
+    const key = Object.hasOwn(json, field.name) ? field.name : field.jsonName
+    if (!Object.hasOwn(json, key)) return
+    const value = json[key]
+    const fieldPath = joinPath(path, field.name)
+    if (value === null && field.resolvedType !== "google.protobuf.Value") return
+
+    if (field.map) {
+      if (!isPlainObject(value)) throw new Error(`${fieldPath}: expected an object for ${field.name}`)
+      const entryType = field.resolvedType ? findMessage(ctx.schema, field.resolvedType) : undefined
+      if (!entryType) throw new Error(`${fieldPath}: map entry type ${field.type} not found`)
+      const [keyField, valueField] = entryType.fields
+
+      Object.entries(value).forEach(([entryKey, entryValue]) => {
+        const entryPath = `${fieldPath}[${JSON.stringify(entryKey)}]`
+        const typedKey = keyField.type === "bool" ? entryKey === "true" : entryKey
+        ctx.lines.push(`${indent}${field.name} {`)
+        ctx.lines.push(`${indent + INDENT}key: ${formatScalar(keyField, typedKey, ctx, entryPath)}`)
+        formatValue(valueField, entryValue, indent + INDENT, ctx, entryPath)
+        ctx.lines.push(`${indent}}`)
+      })
+      return
+    }
+
+    if (field.repeated) {
+      if (!Array.isArray(value)) throw new Error(`${fieldPath}: expected an array for repeated field ${field.name}`)
+      value.forEach((element, i) => formatValue(field, element, indent, ctx, `${fieldPath}[${i}]`))
+      return
+    }
+
+    formatValue(field, value, indent, ctx, fieldPath)
+  })
+
+  const unknown = json[UNKNOWN_FIELDS_KEY]
+  if (Array.isArray(unknown)) {
+    unknown.forEach((field: UnknownField) => {
+      const value = formatUnknown(field)
+      ctx.lines.push(
+        value === undefined ? `${indent}# ${field.number}: wire type ${field.wireType}` : `${indent}${field.number}: ${value}`,
+      )
+    })
+  }
+}
+
+/**
+ * Renders decoded JSON for a message in protobuf text format, as used by
+ * .textproto files: fields by their declared names, enums by identifier,
+ * well-known types in their message form and Any payloads expanded. Unknown
+ * fields are written by number; fixed-width ones as zero-padded hex.
+ */
+export function formatTextProto(
+  data: DecodedData,
+  message: ProtoMessage,
+  schema: ProtoSchema,
+  options: EncodeOptions = {},
+): string {
+  const ctx: FormatContext = { schema, bytesFormat: options.bytesFormat ?? "base64", lines: [] }
+  formatMessage(data, message, "", ctx, "")
+  return ctx.lines.map((line) => line + "\n").join("")
+}
+
+const strictUtf8 = new TextDecoder("utf-8", { fatal: true })
+
+const byteValues = (byteString: string) => Array.from(byteString, (c) => c.charCodeAt(0))
+
+// Integer literals may be decimal, hex or octal
+const parseBigIntLiteral = (text: string) => (/^0[0-7]+$/.test(text) ? BigInt("0o" + text.slice(1)) : BigInt(text))
+
+const hexString = (bytes: number[]) => bytes.map((b) => b.toString(16).padStart(2, "0")).join(" ")
+
+const fixedBytes = (size: 4 | 8, value: bigint) => {
+  const view = new DataView(new ArrayBuffer(size))
+  if (size === 4) view.setUint32(0, Number(value), true)
+  else view.setBigUint64(0, value, true)
+  return Array.from(new Uint8Array(view.buffer))
+}
+
+const is64Bit = (type: string) => ["int64", "uint64", "sint64", "fixed64", "sfixed64"].includes(type)
+
+/**
+ * Parses protobuf text format against a message type, producing the same JSON
+ * shape the decoder does, so the result can be viewed, edited and encoded like
+ * any decoded binary. Both `{}` and `<>` delimit messages, list syntax is
+ * accepted for repeated fields and Any payloads may be written expanded.
+ * Numbered fields become unknown fields. Throws a ProtoSyntaxError with the line
+ * and column of the offending token.
+ */
+export function parseTextProto(source: string, message: ProtoMessage, schema: ProtoSchema): DecodedData {
+  const tokens = tokenize(source, { textFormat: true })
+  let pos = 0
+
+  const peek = (ahead = 0): Token => tokens[Math.min(pos + ahead, tokens.length - 1)]
+
+  const fail = (message: string, token: Token = peek()): never => {
+    throw new ProtoSyntaxError(message, token.line, token.column)
+  }
+
+  const describe = (token: Token) => (token.type === "eof" ? "end of input" : `"${token.value}"`)
+
+  const next = (): Token => {
+    const token = peek()
+    if (token.type !== "eof") pos++
+    return token
+  }
+
+  const isSymbol = (value: string, ahead = 0) => {
+    const token = peek(ahead)
+    return token.type === "symbol" && token.value === value
+  }
+
+  const consumeSymbol = (value: string) => {
+    if (isSymbol(value)) {
+      pos++
+      return true
+    }
+    return false
+  }
+
+  const expectSymbol = (value: string) => {
+    if (!consumeSymbol(value)) fail(`Expected "${value}" but found ${describe(peek())}`)
+  }
+
+  // Adjacent string literals are concatenated; the result holds one char per byte
+  const parseBytesLiteral = (): string => {
+    const token = peek()
+    if (token.type !== "string") fail(`Expected string but found ${describe(token)}`)
+    let value = ""
+    while (peek().type === "string") value += next().value
+    return value
+  }
+
+  const parseSignedInteger = (): { value: bigint; token: Token } => {
+    const negative = consumeSymbol("-")
+    const token = peek()
+    if (token.type !== "int") fail(`Expected integer but found ${describe(token)}`)
+    pos++
+    const value = parseBigIntLiteral(token.value)
+    return { value: negative ? -value : value, token }
+  }
+
+  const parseOpenBrace = (): string => {
+    if (consumeSymbol("{")) return "}"
+    if (consumeSymbol("<")) return ">"
+    return fail(`Expected "{" but found ${describe(peek())}`)
+  }
+
+  const parseScalar = (field: ProtoField): any => {
+    const enumType = field.resolvedType ? findEnum(schema, field.resolvedType) : undefined
+    if (enumType) {
+      const token = peek()
+      if (token.type === "ident") {
+        pos++
+        if (!enumType.values.some((v) => v.name === token.value)) {
+          fail(`Enum type "${enumType.fullName}" has no value named "${token.value}"`, token)
+        }
+        return token.value
+      }
+      const { value, token: numberToken } = parseSignedInteger()
+      const [min, max] = INTEGER_RANGES.int32
+      if (value < min || value > max) fail(`Enum value ${value} is out of range`, numberToken)
+      return formatEnumValue(enumType, Number(value))
+    }
+
+    switch (field.type) {
+      case "string": {
+        const token = peek()
+        const bytes = Uint8Array.from(byteValues(parseBytesLiteral()))
+        try {
+          return strictUtf8.decode(bytes)
+        } catch {
+          return fail(`String field "${field.name}" is not valid UTF-8`, token)
+        }
+      }
+      case "bytes":
+        return byteValues(parseBytesLiteral())
+      case "bool": {
+        const token = next()
+        if (["true", "True", "t"].includes(token.value) || (token.type === "int" && token.value === "1")) return true
+        if (["false", "False", "f"].includes(token.value) || (token.type === "int" && token.value === "0")) return false
+        return fail(`Expected true or false but found ${describe(token)}`, token)
+      }
+      case "float":
+      case "double": {
+        const negative = consumeSymbol("-")
+        const token = next()
+        let value: number
+        if (token.type === "float") {
+          value = Number(token.value)
+        } else if (token.type === "int") {
+          value = Number(parseBigIntLiteral(token.value))
+        } else if (token.type === "ident" && /^(inf|infinity)$/i.test(token.value)) {
+          value = Number.POSITIVE_INFINITY
+        } else if (token.type === "ident" && /^nan$/i.test(token.value)) {
+          return "NaN"
+        } else {
+          return fail(`Expected number but found ${describe(token)}`, token)
+        }
+        if (negative) value = -value
+        if (value === Number.POSITIVE_INFINITY) return "Infinity"
+        if (value === Number.NEGATIVE_INFINITY) return "-Infinity"
+        return value
+      }
+    }
+
+    if (Object.hasOwn(INTEGER_RANGES, field.type)) {
+      const { value, token } = parseSignedInteger()
+      const [min, max] = INTEGER_RANGES[field.type]
+      if (value < min || value > max) fail(`Integer ${value} is out of range for ${field.type}`, token)
+      return is64Bit(field.type) ? format64(value) : Number(value)
+    }
+    return fail(`Type "${field.type}" of field "${field.name}" is not defined in the loaded schema`)
+  }
+
+  // An Any written as plain type_url and value fields gets the decoder's `@type` form
+  const anyToJson = (decoded: DecodedData): DecodedData => {
+    if (Object.hasOwn(decoded, "@type") || !decoded.type_url) return Object.hasOwn(decoded, "@type") ? decoded : {}
+    const typeUrl: string = decoded.type_url
+    const payload = Uint8Array.from(decoded.value ?? [])
+    const target = findMessage(schema, typeUrl.slice(typeUrl.lastIndexOf("/") + 1))
+    if (!target) return { "@type": typeUrl, value: Array.from(payload) }
+    const { data } = decodeProtobufData(payload.buffer, target, schema)
+    const json = wellKnownToJson(target.fullName, data)
+    return json === data ? { "@type": typeUrl, ...data } : { "@type": typeUrl, value: json }
+  }
+
+  const parseValue = (field: ProtoField): any => {
+    const messageType = field.resolvedType ? findMessage(schema, field.resolvedType) : undefined
+    if (!messageType) return parseScalar(field)
+
+    const decoded = parseMessageBody(messageType, parseOpenBrace())
+    if (field.map) return decoded
+    if (messageType.fullName === "google.protobuf.Any") return anyToJson(decoded)
+    return wellKnownToJson(messageType.fullName, decoded)
+  }
+
+  // `[type.googleapis.com/pkg.Message] { ... }` inside an Any
+  const parseExpandedAny = (message: ProtoMessage, result: DecodedData) => {
+    const start = next()
+    if (message.fullName !== "google.protobuf.Any") fail("Extensions are not supported", start)
+    if (Object.hasOwn(result, "@type") || Object.hasOwn(result, "type_url")) {
+      fail("Any payload is specified more than once", start)
+    }
+
+    let typeUrl = ""
+    while (!isSymbol("]")) {
+      const token = next()
+      if (token.type === "eof" || token.type === "string") fail(`Expected "]" but found ${describe(token)}`, token)
+      typeUrl += token.value
+    }
+    pos++
+
+    const typeName = typeUrl.slice(typeUrl.lastIndexOf("/") + 1)
+    const target = findMessage(schema, typeName)
+    if (!target) fail(`Message type "${typeName}" is not in the loaded schema`, start)
+    consumeSymbol(":")
+    const decoded = parseMessageBody(target!, parseOpenBrace())
+    const json = wellKnownToJson(target!.fullName, decoded)
+    if (json === decoded) Object.assign(result, { "@type": typeUrl, ...decoded })
+    else Object.assign(result, { "@type": typeUrl, value: json })
+  }
+
+  // `7: 150`, `7: 0x0000002a` or `7: "bytes"` for a field the schema does not define
+  const parseUnknownField = (result: DecodedData) => {
+    const numberToken = next()
+    const number = parseBigIntLiteral(numberToken.value)
+    if (number < BigInt(1) || number > BigInt(MAX_FIELD_NUMBER)) {
+      fail(`Field number ${number} is out of range`, numberToken)
+    }
+    expectSymbol(":")
+
+    let field: UnknownField
+    const token = peek()
+    if (token.type === "string") {
+      const bytes = byteValues(parseBytesLiteral())
+      field = {
+        number: Number(number),
+        wireType: WIRE_TYPE_LENGTH_DELIMITED,
+        value: interpretPayload(Uint8Array.from(bytes)),
+        raw: hexString([...encodeVarint(bytes.length), ...bytes]),
+      }
+    } else {
+      const { value } = parseSignedInteger()
+      const fixedSize = /^0[xX]([0-9A-Fa-f]{8}|[0-9A-Fa-f]{16})$/.test(token.value) ? (token.value.length - 2) / 2 : 0
+      if (fixedSize === 4) {
+        field = {
+          number: Number(number),
+          wireType: WIRE_TYPE_FIXED32,
+          value: Number(value),
+          raw: hexString(fixedBytes(4, value)),
+        }
+      } else if (fixedSize === 8) {
+        field = {
+          number: Number(number),
+          wireType: WIRE_TYPE_FIXED64,
+          value: format64(value, true),
+          raw: hexString(fixedBytes(8, value)),
+        }
+      } else {
+        const unsigned = BigInt.asUintN(64, value)
+        field = {
+          number: Number(number),
+          wireType: WIRE_TYPE_VARINT,
+          value: format64(unsigned, true),
+          raw: hexString(encodeVarint(unsigned)),
+        }
+      }
+    }
+    if (!result[UNKNOWN_FIELDS_KEY]) result[UNKNOWN_FIELDS_KEY] = []
+    result[UNKNOWN_FIELDS_KEY].push(field)
+  }
+
+  const parseField = (
+    message: ProtoMessage,
+    result: DecodedData,
+    seen: Set<string>,
+    oneofMembers: Map<string, string>,
+  ) => {
+    const token = peek()
+    if (isSymbol("[")) {
+      parseExpandedAny(message, result)
+      return
+    }
+    if (token.type === "int") {
+      parseUnknownField(result)
+      return
+    }
+    if (token.type !== "ident") fail(`Expected field name but found ${describe(token)}`)
+    pos++
+
+    const field = message.fields.find((f) => f.name === token.value)
+    if (!field) fail(`Message type "${message.fullName}" has no field named "${token.value}"`, token)
+    const { name, oneof } = field!
+    if (!field!.repeated) {
+      if (seen.has(name)) fail(`Non-repeated field "${name}" is specified multiple times`, token)
+      seen.add(name)
+    }
+    if (oneof) {
+      const previous = oneofMembers.get(oneof)
+      if (previous && previous !== name) {
+        fail(`Field "${name}" is specified along with field "${previous}", another member of oneof "${oneof}"`, token)
+      }
+      oneofMembers.set(oneof, name)
+    }
+
+    // The colon is optional before a message value and required before a scalar
+    const isMessage = !!field!.resolvedType && !!findMessage(schema, field!.resolvedType)
+    if (!consumeSymbol(":") && !isMessage) fail(`Expected ":" but found ${describe(peek())}`)
+
+    const store = (value: any) => {
+      if (field!.map) {
+        const entryType = findMessage(schema, field!.resolvedType!)!
+        const [keyField, valueField] = entryType.fields
+        const key = Object.hasOwn(value, "key")
+          ? value.key
+          : keyField.type === "bool"
+            ? false
+            : keyField.type === "string"
+              ? ""
+              : 0
+        result[name][String(key)] = Object.hasOwn(value, "value") ? value.value : defaultValue(valueField)
+      } else if (field!.repeated) {
+        result[name].push(value)
+      } else {
+        result[name] = value
+      }
+    }
+
+    if (field!.repeated && consumeSymbol("[")) {
+      if (!consumeSymbol("]")) {
+        do store(parseValue(field!))
+        while (consumeSymbol(","))
+        expectSymbol("]")
+      }
+      return
+    }
+    store(parseValue(field!))
+  }
+
+  // Same values the decoder fills in for a map entry missing its value
+  const defaultValue = (field: ProtoField): any => {
+    const enumType = field.resolvedType ? findEnum(schema, field.resolvedType) : undefined
+    if (enumType) return formatEnumValue(enumType, 0)
+    if (field.type === "bool") return false
+    if (field.type === "string") return ""
+    if (field.type === "bytes") return []
+    if (is64Bit(field.type)) return "0"
+    return Object.hasOwn(INTEGER_RANGES, field.type) || field.type === "float" || field.type === "double"
+      ? 0
+      : createDecodedData()
+  }
+
+  // Reads fields up to `close`, or to the end of input for the top-level message
+  function parseMessageBody(message: ProtoMessage, close?: string): DecodedData {
+    const result = createDecodedData()
+    message.fields.forEach((field) => {
+      if (field.map) result[field.name] = createDecodedData()
+      else if (field.repeated) result[field.name] = []
+    })
+    const seen = new Set<string>()
+    const oneofMembers = new Map<string, string>()
+
+    for (;;) {
+      if (close && consumeSymbol(close)) break
+      if (peek().type === "eof") {
+        if (close) fail(`Expected "${close}" but found end of input`)
+        break
+      }
+      parseField(message, result, seen, oneofMembers)
+      if (!consumeSymbol(",")) consumeSymbol(";")
+    }
+    return result
+  }
+
+  return parseMessageBody(message)
+}
@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest"
+import { decodeProtobufData } from "./decoder"
+import {
+  formatDuration,
+  formatTimestamp,
+  hasSpecialJson,
+  parseDuration,
+  parseTimestamp,
+  wellKnownFromJson,
+  wellKnownToJson,
+} from "./well-known"
+import { buildWorkspace } from "./workspace"
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], (byte) => Number.parseInt(byte, 16)).buffer
+
+describe("formatTimestamp", () => {
+  it.each([
+    ["0", 0, "1970-01-01T00:00:00Z"],
+    ["1700000000", 0, "2023-11-14T22:13:20Z"],
+    ["-1", 0, "1969-12-31T23:59:59Z"],
+    ["0", 500000000, "1970-01-01T00:00:00.500Z"],
+    ["0", 1000, "1970-01-01T00:00:00.000001Z"],
+    ["0", 1, "1970-01-01T00:00:00.000000001Z"],
+    ["99999999999999", 0, "<Timestamp out of range: 99999999999999s>"],
+  ])("formats %ss %dns as %s", (seconds, nanos, text) => {
+    expect(formatTimestamp(BigInt(seconds), nanos)).toBe(text)
+  })
+})
+
+describe("formatDuration", () => {
+  it.each([
+    ["0", 0, "0s"],
+    ["1", 0, "1s"],
+    ["1", 500000000, "1.5s"],
+    ["0", 1, "0.000000001s"],
+    ["-1", -500000000, "-1.5s"],
+    ["0", -1000, "-0.000001s"],
+    ["315576000000", 0, "315576000000s"],
+  ])("formats %ss %dns as %s", (seconds, nanos, text) => {
+    expect(formatDuration(BigInt(seconds), nanos)).toBe(text)
+  })
+})
+
+describe("parseTimestamp", () => {
+  it.each([
+    ["1970-01-01T00:00:00Z", "0", 0],
+    ["2023-11-14T22:13:20.5Z", "1700000000", 500000000],
+    ["1970-01-01T01:00:00+01:00", "0", 0],
+    ["1970-01-01t00:00:00.000000001z", "0", 1],
+    ["1969-12-31T23:59:59Z", "-1", 0],
+  ])("reads %s", (text, seconds, nanos) => {
+    expect(parseTimestamp(text)).toEqual({ seconds: BigInt(seconds), nanos })
+  })
+
+  it.each(["1970-01-01", "1970-01-01T00:00:00", "1970-13-01T00:00:00Z", "1970-01-01T00:00:00.1234567890Z"])(
+    "rejects %s",
+    (text) => {
+      expect(() => parseTimestamp(text)).toThrow(`Invalid RFC 3339 timestamp: ${text}`)
+    },
+  )
+})
+
+describe("parseDuration", () => {
+  it.each([
+    ["0s", "0", 0],
+    ["1.5s", "1", 500000000],
+    ["-1.5s", "-1", -500000000],
+    ["0.000000001s", "0", 1],
+  ])("reads %s", (text, seconds, nanos) => {
+    expect(parseDuration(text)).toEqual({ seconds: BigInt(seconds), nanos })
+  })
+
+  it.each(["1", "1.s", "+1s", "1.0000000001s", "1m"])("rejects %s", (text) => {
+    expect(() => parseDuration(text)).toThrow(`Invalid duration: ${text}`)
+  })
+})
+
+describe("wellKnownToJson", () => {
+  it.each([
+    ["google.protobuf.Int32Value", { value: 5 }, {}, 5],
+    ["google.protobuf.Int32Value", {}, {}, 0],
+    ["google.protobuf.Int64Value", {}, {}, "0"],
+    ["google.protobuf.UInt64Value", {}, { int64AsNumber: true }, 0],
+    ["google.protobuf.BoolValue", {}, {}, false],
+    ["google.protobuf.StringValue", {}, {}, ""],
+    ["google.protobuf.BytesValue", {}, {}, []],
+    ["google.protobuf.BytesValue", {}, { bytesFormat: "base64" as const }, ""],
+    ["google.protobuf.Timestamp", { seconds: "1", nanos: 5000000 }, {}, "1970-01-01T00:00:01.005Z"],
+    ["google.protobuf.Timestamp", {}, {}, "1970-01-01T00:00:00Z"],
+    ["google.protobuf.Duration", { seconds: 3, nanos: 100 }, {}, "3.0000001s"],
+    ["google.protobuf.FieldMask", { paths: ["a_b", "c.d_e"] }, {}, "aB,c.dE"],
+    ["google.protobuf.FieldMask", {}, {}, ""],
+    ["google.protobuf.Empty", {}, {}, {}],
+    ["google.protobuf.Struct", { fields: { a: 1 } }, {}, { a: 1 }],
+    ["google.protobuf.ListValue", {}, {}, []],
+    ["google.protobuf.Value", { null_value: "NULL_VALUE" }, {}, null],
+    ["google.protobuf.Value", { number_value: 0 }, {}, 0],
+    ["google.protobuf.Value", { string_value: "" }, {}, ""],
+    ["google.protobuf.Value", { bool_value: false }, {}, false],
+    ["google.protobuf.Value", { list_value: [1] }, {}, [1]],
+    ["google.protobuf.Value", {}, {}, null],
+    ["pkg.Other", { a: 1 }, {}, { a: 1 }],
+  ])("converts %s %j", (fullName, decoded, options, json) => {
+    expect(wellKnownToJson(fullName, decoded, options)).toEqual(json)
+  })
+})
+
+describe("wellKnownFromJson", () => {
+  it.each([
+    ["google.protobuf.Int32Value", 5, { value: 5 }],
+    ["google.protobuf.Int32Value", 0, {}],
+    ["google.protobuf.DoubleValue", -0, { value: -0 }],
+    ["google.protobuf.Int64Value", "0", {}],
+    ["google.protobuf.BoolValue", false, {}],
+    ["google.protobuf.BytesValue", [], {}],
+    ["google.protobuf.StringValue", { value: "x" }, { value: "x" }],
+    ["google.protobuf.Timestamp", "1970-01-01T00:00:01.005Z", { seconds: "1", nanos: 5000000 }],
+    ["google.protobuf.Timestamp", "1970-01-01T00:00:00Z", {}],
+    ["google.protobuf.Duration", "-1.5s", { seconds: "-1", nanos: -500000000 }],
+    ["google.protobuf.Duration", { seconds: "1" }, { seconds: "1" }],
+    ["google.protobuf.FieldMask", "aB,c.dE", { paths: ["a_b", "c.d_e"] }],
+    ["google.protobuf.FieldMask", "", { paths: [] }],
+    ["google.protobuf.Struct", { a: 1 }, { fields: { a: 1 } }],
+    ["google.protobuf.ListValue", [1], { values: [1] }],
+    ["google.protobuf.Value", null, { null_value: "NULL_VALUE" }],
+    ["google.protobuf.Value", 1, { number_value: 1 }],
+    ["google.protobuf.Value", "a", { string_value: "a" }],
+    ["google.protobuf.Value", true, { bool_value: true }],
+    ["google.protobuf.Value", [1], { list_value: [1] }],
+    ["google.protobuf.Value", { a: 1 }, { struct_value: { a: 1 } }],
+    ["pkg.Other", { a: 1 }, { a: 1 }],
+  ])("converts %s %j", (fullName, json, message) => {
+    expect(wellKnownFromJson(fullName, json)).toEqual(message)
+  })
+
+  it("rejects malformed timestamps and durations", () => {
+    expect(() => wellKnownFromJson("google.protobuf.Timestamp", "yesterday")).toThrow("Invalid RFC 3339 timestamp")
+    expect(() => wellKnownFromJson("google.protobuf.Duration", "1m")).toThrow("Invalid duration: 1m")
+  })
+})
+
+describe("hasSpecialJson", () => {
+  it.each([
+    ["google.protobuf.Timestamp", true],
+    ["google.protobuf.BytesValue", true],
+    ["google.protobuf.Value", true],
+    ["google.protobuf.Any", false],
+    ["constructor", false],
+    ["pkg.Other", false],
+  ])("%s is %s", (fullName, special) => {
+    expect(hasSpecialJson(fullName)).toBe(special)
+  })
+})
+
+describe("decoding well-known types", () => {
+  const { schema } = buildWorkspace([
+    {
+      path: "known.proto",
+      size: 0,
+      content: `
+        syntax = "proto3";
+        package known;
+        import "google/protobuf/any.proto";
+        import "google/protobuf/struct.proto";
+        import "google/protobuf/timestamp.proto";
+        import "google/protobuf/wrappers.proto";
+
+        message Known {
+          google.protobuf.Timestamp at = 1;
+          google.protobuf.Int64Value count = 2;
+          google.protobuf.BytesValue blob = 3;
+          google.protobuf.Struct meta = 4;
+          google.protobuf.Any any = 5;
+          int32 plain_value = 6;
+        }
+      `,
+    },
+  ])
+  const known = schema.messages.find((m) => m.fullName === "known.Known")!
+  const decode = (hex: string, options = {}) => decodeProtobufData(fromHex(hex), known, schema, options).data
+
+  it.each([
+    ["0a020801", {}, { at: "1970-01-01T00:00:01Z" }],
+    ["0a00", {}, { at: "1970-01-01T00:00:00Z" }],
+    ["1200", {}, { count: "0" }],
+    ["12020805", { int64AsNumber: true }, { count: 5 }],
+    ["1a00", { bytesFormat: "base64" }, { blob: "" }],
+    ["1a00", { bytesFormat: "hex" }, { blob: "" }],
+    ["1a040a02ff00", { bytesFormat: "hex" }, { blob: "ff00" }],
+    ["2200", {}, { meta: {} }],
+    ["220e0a0c0a016112071a0568656c6c6f", {}, { meta: { a: "hello" } }],
+    ["3001", { jsonNames: true }, { plainValue: 1 }],
+  ])("decodes %s with %j", (hex, options, data) => {
+    expect(decode(hex, options)).toEqual(data)
+  })
+
+  it.each([
+    ["array", [1, 2]],
+    ["base64", "AQI="],
+    ["hex", "0102"],
+  ])("shows unresolved Any payloads as %s", (bytesFormat, value) => {
+    const url = Buffer.from("type.googleapis.com/x.Missing").toString("hex")
+    expect(decode(`2a23 0a1d${url} 12020102`.replace(/ /g, ""), { bytesFormat })).toEqual({
+      any: { "@type": "type.googleapis.com/x.Missing", value },
+    })
+  })
+})
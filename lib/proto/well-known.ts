@@ -0,0 +1,274 @@
+import { formatBytes, type DecodedData, type DecodeOptions } from "./decoder"
+
+type JsonOptions = Pick<DecodeOptions, "int64AsNumber" | "bytesFormat">
+
+// Definitions of the google/protobuf well-known types, bundled so schemas that
+// import them resolve without network access. Comments and language options from
+// the upstream files are omitted.
+export const WELL_KNOWN_FILES: Record<string, string> = {
+  "google/protobuf/any.proto": `syntax = "proto3";
+package google.protobuf;
+
+message Any {
+  string type_url = 1;
+  bytes value = 2;
+}
+`,
+  "google/protobuf/duration.proto": `syntax = "proto3";
+package google.protobuf;
+
+message Duration {
+  int64 seconds = 1;
+  int32 nanos = 2;
+}
+`,
+  "google/protobuf/empty.proto": `syntax = "proto3";
+package google.protobuf;
+
+message Empty {}
+`,
+  "google/protobuf/field_mask.proto": `syntax = "proto3";
+package google.protobuf;
+
+message FieldMask {
+  repeated string paths = 1;
+}
+`,
+  "google/protobuf/struct.proto": `syntax = "proto3";
+package google.protobuf;
+
+message Struct {
+  map<string, Value> fields = 1;
+}
+
+message Value {
+  oneof kind {
+    NullValue null_value = 1;
+    double number_value = 2;
+    string string_value = 3;
+    bool bool_value = 4;
+    Struct struct_value = 5;
+    ListValue list_value = 6;
+  }
+}
+
+enum NullValue {
+  NULL_VALUE = 0;
+}
+
+message ListValue {
+  repeated Value values = 1;
+}
+`,
+  "google/protobuf/timestamp.proto": `syntax = "proto3";
+package google.protobuf;
+
+message Timestamp {
+  int64 seconds = 1;
+  int32 nanos = 2;
+}
+`,
+  "google/protobuf/wrappers.proto": `syntax = "proto3";
+package google.protobuf;
+
+message DoubleValue {
+  double value = 1;
+}
+
+message FloatValue {
+  float value = 1;
+}
+
+message Int64Value {
+  int64 value = 1;
+}
+
+message UInt64Value {
+  uint64 value = 1;
+}
+
+message Int32Value {
+  int32 value = 1;
+}
+
+message UInt32Value {
+  uint32 value = 1;
+}
+
+message BoolValue {
+  bool value = 1;
+}
+
+message StringValue {
+  string value = 1;
+}
+
+message BytesValue {
+  bytes value = 1;
+}
+`,
+}
+
+const WRAPPER_DEFAULTS: Record<string, (options: JsonOptions) => any> = {
+  "google.protobuf.DoubleValue": () => 0,
+  "google.protobuf.FloatValue": () => 0,
+  "google.protobuf.Int64Value": ({ int64AsNumber }) => (int64AsNumber ? 0 : "0"),
+  "google.protobuf.UInt64Value": ({ int64AsNumber }) => (int64AsNumber ? 0 : "0"),
+  "google.protobuf.Int32Value": () => 0,
+  "google.protobuf.UInt32Value": () => 0,
+  "google.protobuf.BoolValue": () => false,
+  "google.protobuf.StringValue": () => "",
+  "google.protobuf.BytesValue": ({ bytesFormat = "array" }) => formatBytes(new Uint8Array(0), bytesFormat),
+}
+
+// Own keys only, so that a message named after an Object property is not a wrapper
+const isWrapper = (fullName: string) => Object.hasOwn(WRAPPER_DEFAULTS, fullName)
+
+// Fractional seconds use 0, 3, 6 or 9 digits, as protojson and JsonFormat do
+const formatNanos = (nanos: number) => {
+  if (nanos === 0) return ""
+  if (nanos % 1000000 === 0) return "." + String(nanos / 1000000).padStart(3, "0")
+  if (nanos % 1000 === 0) return "." + String(nanos / 1000).padStart(6, "0")
+  return "." + String(nanos).padStart(9, "0")
+}
+
+export const formatTimestamp = (seconds: bigint, nanos: number): string => {
+  const date = new Date(Number(seconds) * 1000)
+  if (Number.isNaN(date.getTime())) {
+    return `<Timestamp out of range: ${seconds}s>`
+  }
+  return date.toISOString().replace(/\.\d{3}Z$/, "") + formatNanos(nanos) + "Z"
+}
+
+export const formatDuration = (seconds: bigint, nanos: number): string => {
+  const negative = seconds < BigInt(0) || nanos < 0
+  const abs = (seconds < BigInt(0) ? -seconds : seconds).toString()
+  const fraction = nanos === 0 ? "" : "." + String(Math.abs(nanos)).padStart(9, "0").replace(/0+$/, "")
+  return `${negative ? "-" : ""}${abs}${fraction}s`
+}
+
+// snake_case field paths become lowerCamelCase in JSON
+const toLowerCamel = (path: string) => path.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase())
+
+/**
+ * Converts a decoded well-known message into its canonical proto3 JSON form:
+ * RFC 3339 timestamps, "1.5s" durations, bare wrapper values and plain JSON for
+ * Struct/Value/ListValue. Other messages are returned unchanged.
+ */
+export function wellKnownToJson(fullName: string, decoded: DecodedData, options: JsonOptions = {}): any {
+  if (isWrapper(fullName)) {
+    return decoded.value ?? WRAPPER_DEFAULTS[fullName](options)
+  }
+
+  switch (fullName) {
+    case "google.protobuf.Timestamp":
+      return formatTimestamp(BigInt(decoded.seconds ?? 0), decoded.nanos ?? 0)
+    case "google.protobuf.Duration":
+      return formatDuration(BigInt(decoded.seconds ?? 0), decoded.nanos ?? 0)
+    case "google.protobuf.FieldMask":
+      return (decoded.paths ?? []).map(toLowerCamel).join(",")
+    case "google.protobuf.Empty":
+      return {}
+    case "google.protobuf.Struct":
+      return decoded.fields ?? {}
+    case "google.protobuf.ListValue":
+      return decoded.values ?? []
+    case "google.protobuf.Value":
+      if (Object.hasOwn(decoded, "null_value")) return null
+      if (Object.hasOwn(decoded, "number_value")) return decoded.number_value
+      if (Object.hasOwn(decoded, "string_value")) return decoded.string_value
+      if (Object.hasOwn(decoded, "bool_value")) return decoded.bool_value
+      if (Object.hasOwn(decoded, "struct_value")) return decoded.struct_value
+      if (Object.hasOwn(decoded, "list_value")) return decoded.list_value
+      return null
+    default:
+      return decoded
+  }
+}
+
+// Inverse of formatTimestamp; accepts any UTC offset, as proto3 JSON parsers do
+export const parseTimestamp = (text: string): { seconds: bigint; nanos: number } => {
+  const match = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d{1,9}))?(Z|[+-]\d{2}:\d{2})$/i.exec(text)
+  const millis = match ? Date.parse(`${match[1]}${match[3]}`) : Number.NaN
+  if (!match || Number.isNaN(millis)) {
+    throw new Error(`Invalid RFC 3339 timestamp: ${text}`)
+  }
+  return { seconds: BigInt(Math.floor(millis / 1000)), nanos: Number((match[2] ?? "").padEnd(9, "0")) }
+}
+
+export const parseDuration = (text: string): { seconds: bigint; nanos: number } => {
+  const match = /^(-)?(\d+)(?:\.(\d{1,9}))?s$/.exec(text)
+  if (!match) {
+    throw new Error(`Invalid duration: ${text}`)
+  }
+  const sign = match[1] ? -1 : 1
+  const seconds = BigInt(match[2]) * BigInt(sign)
+  return { seconds, nanos: Number((match[3] ?? "").padEnd(9, "0")) * sign }
+}
+
+// -0 is not a default, as its bits are not zero
+const isWrapperDefault = (value: unknown) =>
+  Object.is(value, 0) ||
+  value === "0" ||
+  value === false ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0)
+
+const toSnakeCase = (path: string) => path.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`)
+
+const isObject = (value: unknown): value is DecodedData =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/**
+ * Converts the canonical JSON form of a well-known type back into its message
+ * form, the inverse of wellKnownToJson. Values already in message form, and
+ * messages that are not well-known types, are returned unchanged.
+ */
+export function wellKnownFromJson(fullName: string, json: any): any {
+  // Fields at their default value are left out, as they are not written on the wire
+  if (isWrapper(fullName)) {
+    if (isObject(json)) return json
+    return isWrapperDefault(json) ? {} : { value: json }
+  }
+
+  switch (fullName) {
+    case "google.protobuf.Timestamp":
+    case "google.protobuf.Duration": {
+      if (typeof json !== "string") return json
+      const { seconds, nanos } = fullName.endsWith("Timestamp") ? parseTimestamp(json) : parseDuration(json)
+      return {
+        ...(seconds !== BigInt(0) && { seconds: seconds.toString() }),
+        ...(nanos !== 0 && { nanos }),
+      }
+    }
+    case "google.protobuf.FieldMask":
+      if (typeof json !== "string") return json
+      return { paths: json ? json.split(",").map(toSnakeCase) : [] }
+    case "google.protobuf.Struct":
+      return { fields: json ?? {} }
+    case "google.protobuf.ListValue":
+      return { values: json ?? [] }
+    case "google.protobuf.Value":
+      if (json === null) return { null_value: "NULL_VALUE" }
+      if (typeof json === "number") return { number_value: json }
+      if (typeof json === "string") return { string_value: json }
+      if (typeof json === "boolean") return { bool_value: json }
+      if (Array.isArray(json)) return { list_value: json }
+      return { struct_value: json }
+    default:
+      return json
+  }
+}
+
+/** True for well-known types whose JSON form is not a plain object of their fields. */
+export const hasSpecialJson = (fullName: string) =>
+  isWrapper(fullName) ||
+  [
+    "google.protobuf.Timestamp",
+    "google.protobuf.Duration",
+    "google.protobuf.FieldMask",
+    "google.protobuf.Empty",
+    "google.protobuf.Struct",
+    "google.protobuf.ListValue",
+    "google.protobuf.Value",
+  ].includes(fullName)
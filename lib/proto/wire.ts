@@ -0,0 +1,43 @@
+// Wire-format constants shared by the decoder and the schema model.
+
+export const WIRE_TYPE_VARINT = 0
+export const WIRE_TYPE_FIXED64 = 1
+export const WIRE_TYPE_LENGTH_DELIMITED = 2
+export const WIRE_TYPE_START_GROUP = 3
+export const WIRE_TYPE_END_GROUP = 4
+export const WIRE_TYPE_FIXED32 = 5
+
+export const WIRE_TYPE_NAMES: Record<number, string> = {
+  0: "varint",
+  1: "64-bit",
+  2: "length-delimited",
+  3: "start group",
+  4: "end group",
+  5: "32-bit",
+}
+
+/**
+ * Wire type each scalar type is encoded with when not packed. A Map rather than
+ * an object, so that type names such as "constructor" are not found on its prototype.
+ */
+export const SCALAR_WIRE_TYPES: ReadonlyMap<string, number> = new Map([
+  ["int32", WIRE_TYPE_VARINT],
+  ["int64", WIRE_TYPE_VARINT],
+  ["uint32", WIRE_TYPE_VARINT],
+  ["uint64", WIRE_TYPE_VARINT],
+  ["sint32", WIRE_TYPE_VARINT],
+  ["sint64", WIRE_TYPE_VARINT],
+  ["bool", WIRE_TYPE_VARINT],
+  ["fixed64", WIRE_TYPE_FIXED64],
+  ["sfixed64", WIRE_TYPE_FIXED64],
+  ["double", WIRE_TYPE_FIXED64],
+  ["string", WIRE_TYPE_LENGTH_DELIMITED],
+  ["bytes", WIRE_TYPE_LENGTH_DELIMITED],
+  ["fixed32", WIRE_TYPE_FIXED32],
+  ["sfixed32", WIRE_TYPE_FIXED32],
+  ["float", WIRE_TYPE_FIXED32],
+])
+
+/** Only varint, 32-bit and 64-bit scalars (and enums) may use the packed encoding. */
+export const isPackableType = (type: string) =>
+  SCALAR_WIRE_TYPES.has(type) && SCALAR_WIRE_TYPES.get(type) !== WIRE_TYPE_LENGTH_DELIMITED
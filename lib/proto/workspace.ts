@@ -0,0 +1,141 @@
+import { parseProtoFile, resolveSchemaTypes, SCALAR_TYPES, type ProtoSchema } from "./schema"
+import { WELL_KNOWN_FILES } from "./well-known"
+
+export interface WorkspaceFile {
+  /** Path used to resolve imports, e.g. `common/types.proto`. */
+  path: string
+  content: string
+  size: number
+  schema?: ProtoSchema
+  /** Parse error, when the file could not be loaded. */
+  error?: string
+  /** True for the google/protobuf/* definitions added automatically. */
+  bundled?: boolean
+}
+
+export interface UnresolvedImport {
+  file: string
+  path: string
+}
+
+export interface UnresolvedType {
+  file: string
+  message: string
+  field: string
+  type: string
+}
+
+export interface ProtoWorkspace {
+  files: WorkspaceFile[]
+  /** Every message and enum from every file, with types resolved across files. */
+  schema: ProtoSchema
+  unresolvedImports: UnresolvedImport[]
+  unresolvedTypes: UnresolvedType[]
+}
+
+/**
+ * Finds the file an import statement refers to. Import paths are relative to a
+ * proto root that may sit anywhere inside an uploaded directory, so a suffix match
+ * on whole path segments is accepted when there is no exact match.
+ */
+export const findImportedFile = (files: WorkspaceFile[], importPath: string) =>
+  files.find((f) => f.path === importPath) ?? files.find((f) => f.path.endsWith(`/${importPath}`))
+
+/**
+ * Parses a set of .proto files into a workspace. Each file sees its own types,
+ * those of the files it imports directly, and anything re-exported through
+ * `import public`, matching protoc's visibility rules.
+ */
+export function buildWorkspace(inputs: { path: string; content: string; size: number }[]): ProtoWorkspace {
+  const loadFile = (input: { path: string; content: string; size: number }): WorkspaceFile => {
+    try {
+      const schema = parseProtoFile(input.content)
+      schema.messages.forEach((m) => (m.file = input.path))
+      schema.enums.forEach((e) => (e.file = input.path))
+      return { ...input, schema }
+    } catch (err) {
+      return { ...input, error: err instanceof Error ? err.message : "Unknown error" }
+    }
+  }
+
+  const files = inputs.map(loadFile)
+
+  // Imports of well-known types fall back to the bundled copies unless the user
+  // uploaded their own
+  const wellKnownImports = new Set(files.flatMap((f) => f.schema?.imports ?? []))
+  wellKnownImports.forEach((importPath) => {
+    if (Object.hasOwn(WELL_KNOWN_FILES, importPath) && !findImportedFile(files, importPath)) {
+      const content = WELL_KNOWN_FILES[importPath]
+      files.push({ ...loadFile({ path: importPath, content, size: content.length }), bundled: true })
+    }
+  })
+
+  const unresolvedImports: UnresolvedImport[] = []
+  const unresolvedTypes: UnresolvedType[] = []
+
+  // Public imports are followed transitively; ordinary imports only one level deep
+  const collectPublic = (file: WorkspaceFile, visible: Set<WorkspaceFile>) => {
+    file.schema?.publicImports.forEach((importPath) => {
+      const imported = findImportedFile(files, importPath)
+      if (imported && !visible.has(imported)) {
+        visible.add(imported)
+        collectPublic(imported, visible)
+      }
+    })
+  }
+
+  files.forEach((file) => {
+    if (!file.schema) return
+
+    const visible = new Set<WorkspaceFile>([file])
+    file.schema.imports.forEach((importPath) => {
+      const imported = findImportedFile(files, importPath)
+      if (!imported) {
+        unresolvedImports.push({ file: file.path, path: importPath })
+        return
+      }
+      visible.add(imported)
+      collectPublic(imported, visible)
+    })
+
+    const known = new Set<string>()
+    visible.forEach((f) => {
+      f.schema?.messages.forEach((m) => known.add(m.fullName))
+      f.schema?.enums.forEach((e) => known.add(e.fullName))
+    })
+    resolveSchemaTypes(file.schema, known)
+
+    file.schema.messages.forEach((message) => {
+      message.fields.forEach((field) => {
+        if (!SCALAR_TYPES.has(field.type) && !field.resolvedType) {
+          unresolvedTypes.push({ file: file.path, message: message.fullName, field: field.name, type: field.type })
+        }
+      })
+    })
+  })
+
+  const parsed = files.filter((f) => f.schema).map((f) => f.schema as ProtoSchema)
+  const schema: ProtoSchema = {
+    syntax: parsed[0]?.syntax ?? "proto3",
+    package: parsed[0]?.package ?? "",
+    imports: [],
+    publicImports: [],
+    messages: [],
+    enums: [],
+  }
+
+  // The first definition of a fully-qualified name wins if files overlap
+  const seen = new Set<string>()
+  parsed.forEach((fileSchema) => {
+    fileSchema.messages.forEach((m) => {
+      if (!seen.has(m.fullName)) schema.messages.push(m)
+      seen.add(m.fullName)
+    })
+    fileSchema.enums.forEach((e) => {
+      if (!seen.has(e.fullName)) schema.enums.push(e)
+      seen.add(e.fullName)
+    })
+  })
+
+  return { files, schema, unresolvedImports, unresolvedTypes }
+}